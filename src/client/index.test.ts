@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GameClient } from "./index";
+import { GameServerHandle, createGameServer } from "../server/server";
+import { connectClient, nextEvent, stubDatabase } from "../server/testing";
+
+describe("GameClient", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+
+  beforeEach(async () => {
+    stubDatabase();
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  async function startMatch(): Promise<[GameClient, GameClient]> {
+    const alice = connectClient(server.port);
+    const bob = connectClient(server.port);
+    clients.push(alice, bob);
+
+    const started = Promise.all([nextEvent(alice, "start_game"), nextEvent(bob, "start_game")]);
+    await alice.joinQueue({ username: "alice" });
+    await bob.joinQueue({ username: "bob" });
+    await started;
+    return [alice, bob];
+  }
+
+  // Both players' clients, the one on turn first
+  function byTurn(players: [GameClient, GameClient]): [GameClient, GameClient] {
+    const [first, second] = players;
+    return first.playerNumber === first.gameState?.currentPlayer ? [first, second] : [second, first];
+  }
+
+  it("pairs two queued players and seats them on opposite sides", async () => {
+    const [alice, bob] = await startMatch();
+
+    assert.ok(alice.roomId);
+    assert.equal(bob.roomId, alice.roomId);
+    assert.deepEqual([alice.playerNumber, bob.playerNumber].sort(), [1, 2]);
+    assert.equal(alice.gameState?.gameStatus, "active");
+    assert.ok(alice.sessionToken);
+    assert.notEqual(alice.sessionToken, bob.sessionToken);
+  });
+
+  it("keeps the GameState mirror in step with the moves", async () => {
+    const [mover, waiter] = byTurn(await startMatch());
+    const updated = (client: GameClient) => nextEvent(client, "game_update", ({ gameState }) => gameState.lines.length === 1);
+    const updates = Promise.all([updated(mover), updated(waiter)]);
+
+    await mover.makeMove({ start: { row: 0, col: 0 }, end: { row: 0, col: 1 } });
+    await updates;
+
+    assert.equal(mover.gameState?.lines.length, 1);
+    assert.equal(mover.gameState?.currentPlayer, waiter.playerNumber);
+    assert.deepEqual(waiter.gameState, mover.gameState);
+  });
+
+  it("reports a listener that throws instead of logging it", async () => {
+    const client = connectClient(server.port);
+    clients.push(client);
+    const failure = new Error("render failed");
+    client.on("connection_change", () => {
+      throw failure;
+    });
+
+    const reported = nextEvent(client, "client_error");
+    await nextEvent(client, "connection_change", status => status === "connected");
+    assert.equal(await reported, failure);
+  });
+
+  it("takes its seat back after the server drops the connection", async () => {
+    const [mover, waiter] = byTurn(await startMatch());
+    const { roomId, playerNumber } = mover;
+
+    const [socket] = await server.io.in(mover.socket.id!).fetchSockets();
+    const reconnected = nextEvent(mover, "connection_change", status => status === "connected", 10 * 1000);
+    socket.disconnect();
+    await reconnected;
+
+    assert.equal(mover.roomId, roomId);
+    assert.equal(mover.playerNumber, playerNumber);
+
+    // The seat still plays, and both mirrors see the move
+    const updates = Promise.all([mover, waiter].map(client =>
+      nextEvent(client, "game_update", ({ gameState }) => gameState.lines.length === 1)
+    ));
+    await mover.makeMove({ start: { row: 0, col: 0 }, end: { row: 0, col: 1 } });
+    await updates;
+    assert.deepEqual(waiter.gameState, mover.gameState);
+  });
+});
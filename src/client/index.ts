@@ -0,0 +1,544 @@
+// Client for the game server's socket protocol. Wraps every request in a
+// promise, keeps a mirror of the current room's GameState, and after a
+// dropped connection takes its seat (or spectator place) back by itself.
+import { io } from "socket.io-client";
+import type { ManagerOptions, Socket, SocketOptions } from "socket.io-client";
+import { GameError, PROTOCOL_VERSION } from "../server/protocol";
+import type {
+  ClientEvent,
+  ClientToServerEvents,
+  ErrorCode,
+  ErrorResponse,
+  LeaderboardRequest,
+  MatchHistoryRequest,
+  MoveInput,
+  PlayRequest,
+  RestrictUserRequest,
+  ServerToClientEvents
+} from "../server/protocol";
+import type { GameState, PlayerNumber } from "../server/types";
+import type { BotLevel } from "../server/bot";
+import type { GameSearchQuery } from "../server/admin";
+import type { CreateTournamentOptions } from "../server/tournament";
+
+export { GameError, PROTOCOL_VERSION } from "../server/protocol";
+export type * from "../server/protocol";
+export type * from "../server/types";
+
+const DEFAULT_REQUEST_TIMEOUT = 10 * 1000; // 10 seconds in milliseconds
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500; // milliseconds, doubled after every attempt
+// The server only frees a dropped seat once it notices the old connection
+// is gone, which can take up to its ping timeout
+const REJOIN_ATTEMPTS = 10;
+const REJOIN_RETRY_DELAY = 3 * 1000; // 3 seconds in milliseconds
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "closed";
+
+export interface GameClientOptions {
+  url: string;
+  token?: string; // account session token; guests leave it out
+  sessionToken?: string; // seat token from an earlier connection, to rejoin a running game
+  requestTimeout?: number; // milliseconds
+  retries?: number; // extra attempts for requests that never reached a server
+  retryDelay?: number; // milliseconds before the first retry
+  socket?: Partial<ManagerOptions & SocketOptions>;
+}
+
+// Events raised by the client itself rather than the server
+export interface LocalEvents {
+  state_change: (gameState: GameState) => void;
+  room_change: (room: { roomId: string | null; playerNumber: PlayerNumber | null; spectating: boolean }) => void;
+  connection_change: (status: ConnectionStatus) => void;
+  // The server refused the connection, e.g. "update_required" or "unauthenticated"
+  connection_error: (error: GameError) => void;
+  // Something failed inside the client: "session_restore" after a reconnect,
+  // or "listener:<event>" when one of the app's listeners threw
+  client_error: (error: unknown, during: string) => void;
+}
+
+export type GameClientEvents = ServerToClientEvents & LocalEvents;
+
+type RequestPayload<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0];
+type AckResponse<E extends ClientEvent> = Parameters<Parameters<ClientToServerEvents[E]>[1]>[0];
+type Response<E extends ClientEvent> = Extract<AckResponse<E>, { success: true }>;
+
+interface AckEmitter {
+  emitWithAck<E extends ClientEvent>(event: E, payload: RequestPayload<E>): Promise<AckResponse<E>>;
+}
+
+// socket.io's typings can't resolve the payload and response of a generic
+// event name, so requests are sent through this per-event signature instead
+function ackEmitter(socket: Socket<ServerToClientEvents, ClientToServerEvents>, timeout: number): AckEmitter {
+  return socket.timeout(timeout) as unknown as AckEmitter;
+}
+
+type Listener = (...args: any[]) => void;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class GameClient {
+  socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+  status: ConnectionStatus;
+  gameState: GameState | null;
+  roomId: string | null;
+  playerNumber: PlayerNumber | null;
+  spectating: boolean;
+  sessionToken?: string;
+  requestTimeout: number;
+  retries: number;
+  retryDelay: number;
+  private listeners: Map<string, Set<Listener>>;
+  private readyWaiters: Set<(ready: boolean) => void>;
+  private watchedTournaments: Set<string>;
+  private clockOffset: number; // server clock minus ours, in milliseconds
+
+  constructor(options: GameClientOptions) {
+    this.status = "connecting";
+    this.gameState = null;
+    this.roomId = null;
+    this.playerNumber = null;
+    this.spectating = false;
+    this.sessionToken = options.sessionToken;
+    this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.listeners = new Map();
+    this.readyWaiters = new Set();
+    this.watchedTournaments = new Set();
+    this.clockOffset = 0;
+
+    this.socket = io(options.url, {
+      ...options.socket,
+      auth: { protocolVersion: PROTOCOL_VERSION, token: options.token }
+    });
+
+    this.socket.on("connect", () => this.restoreSession());
+
+    this.socket.on("disconnect", reason => {
+      if (reason === "io client disconnect") return this.setStatus("closed");
+      this.setStatus("reconnecting");
+      // socket.io leaves reconnecting to us when the server dropped the socket
+      if (reason === "io server disconnect") this.socket.connect();
+    });
+
+    this.socket.on("connect_error", (error: Error & { data?: { error?: ErrorCode; message?: string } }) => {
+      // Refused by the server's middleware rather than a network failure; retrying won't help
+      if (this.socket.active) return;
+      this.dispatch("connection_error", [new GameError(error.data?.error ?? "request_failed", error.data?.message ?? error.message)]);
+      this.setStatus("closed");
+    });
+
+    this.socket.onAny((event: string, ...args: any[]) => {
+      this.mirror(event, args[0]);
+      this.dispatch(event, args);
+    });
+  }
+
+  /**
+   * Subscribes to a server event or one of the client's own events and
+   * returns a function that unsubscribes again.
+   */
+  on<E extends keyof GameClientEvents>(event: E, listener: GameClientEvents[E]): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof GameClientEvents>(event: E, listener: GameClientEvents[E]) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  close() {
+    this.socket.disconnect();
+    this.setStatus("closed");
+  }
+
+  // Seconds left on the current turn, counted against the server's clock
+  turnTimeLeft(): number {
+    const state = this.gameState;
+    if (!state) return 0;
+    if (state.turnDeadline === null) return state.timeLeft;
+    return Math.max(0, Math.ceil((state.turnDeadline - (Date.now() + this.clockOffset)) / 1000));
+  }
+
+  // Matchmaking and rooms
+
+  async joinQueue(request: PlayRequest) {
+    const response = await this.request("join_queue", request);
+    this.sessionToken = response.sessionToken;
+    return { rating: response.rating, estimatedWait: response.estimatedWait };
+  }
+
+  async createPrivateRoom(request: PlayRequest) {
+    const response = await this.request("create_private_room", request);
+    this.sessionToken = response.sessionToken;
+    this.setRoom(response.roomId, null, false);
+    return { code: response.code, roomId: response.roomId, expiresIn: response.expiresIn };
+  }
+
+  async joinPrivateRoom(code: string, username: string) {
+    const response = await this.request("join_private_room", { code, username });
+    this.sessionToken = response.sessionToken;
+    return response.roomId;
+  }
+
+  async cancelPrivateRoom(code: string) {
+    await this.request("cancel_private_room", { code });
+    this.setRoom(null, null, false);
+  }
+
+  async playVsBot(request: PlayRequest & { level?: BotLevel }) {
+    const response = await this.request("play_vs_bot", request);
+    this.sessionToken = response.sessionToken;
+  }
+
+  /**
+   * Takes back a seat left by a dropped connection. Reconnects do this by
+   * themselves; this is for a new client, e.g. after reloading the page.
+   */
+  async rejoin(sessionToken: string | undefined = this.sessionToken) {
+    const response = await this.request("rejoin_room", { sessionToken });
+    this.seat(response);
+    return response.gameState;
+  }
+
+  async leaveRoom() {
+    await this.request("leave_room", { roomId: this.currentRoom() });
+    this.setRoom(null, null, false);
+  }
+
+  // Playing
+
+  async makeMove(move: MoveInput) {
+    await this.request("make_move", { roomId: this.currentRoom(), move });
+  }
+
+  async requestPause() {
+    await this.request("request_pause", { roomId: this.currentRoom() });
+  }
+
+  async respondToPause(accept: boolean) {
+    await this.request("respond_pause", { roomId: this.currentRoom(), accept });
+  }
+
+  async resumeGame() {
+    await this.request("resume_game", { roomId: this.currentRoom() });
+  }
+
+  async resign() {
+    await this.request("resign", { roomId: this.currentRoom() });
+  }
+
+  async offerDraw() {
+    await this.request("offer_draw", { roomId: this.currentRoom() });
+  }
+
+  async respondToDraw(accept: boolean) {
+    await this.request("respond_draw", { roomId: this.currentRoom(), accept });
+  }
+
+  async requestRematch(swapFirst?: boolean) {
+    await this.request("request_rematch", { roomId: this.currentRoom(), swapFirst });
+  }
+
+  async acceptRematch() {
+    await this.request("accept_rematch", { roomId: this.currentRoom() });
+  }
+
+  async declineRematch() {
+    await this.request("decline_rematch", { roomId: this.currentRoom() });
+  }
+
+  // Spectating
+
+  async listLiveGames() {
+    return (await this.request("list_live_games", {})).games;
+  }
+
+  async spectate(roomId: string) {
+    const response = await this.request("spectate_room", { roomId });
+    this.setRoom(response.roomId, null, true);
+    this.setState(response.gameState);
+    return response.gameState;
+  }
+
+  async stopSpectating() {
+    await this.request("stop_spectating", { roomId: this.currentRoom() });
+    this.setRoom(null, null, false);
+  }
+
+  // Chat and reactions
+
+  async sendMessage(message: string) {
+    await this.request("send_message", { roomId: this.currentRoom(), message });
+  }
+
+  async getChatHistory() {
+    return (await this.request("get_chat_history", { roomId: this.currentRoom() })).chat;
+  }
+
+  async muteOpponent(muted: boolean) {
+    await this.request("mute_opponent", { roomId: this.currentRoom(), muted });
+  }
+
+  async getReactionCatalog() {
+    return (await this.request("get_reaction_catalog", {})).reactions;
+  }
+
+  async sendReaction(reactionId: string) {
+    await this.request("send_reaction", { roomId: this.currentRoom(), reactionId });
+  }
+
+  async toggleReactions(enabled: boolean) {
+    await this.request("toggle_reactions", { roomId: this.currentRoom(), enabled });
+  }
+
+  // History and statistics
+
+  async getGameReplay(roomId: string, step?: number) {
+    return (await this.request("get_game_replay", { roomId, step })).replay;
+  }
+
+  async getMatchHistory(request: MatchHistoryRequest = {}) {
+    return (await this.request("get_match_history", request)).history;
+  }
+
+  async getLeaderboard(request: LeaderboardRequest = {}) {
+    return (await this.request("get_leaderboard", request)).leaderboard;
+  }
+
+  async getReferralStats() {
+    return (await this.request("get_referral_stats", {})).referrals;
+  }
+
+  async getUserStats() {
+    const response = await this.request("get_user_stats", {});
+    return { stats: response.stats, username: response.username };
+  }
+
+  // Tournaments
+
+  async listTournaments() {
+    return (await this.request("list_tournaments", {})).tournaments;
+  }
+
+  async watchTournament(tournamentId: string) {
+    const response = await this.request("watch_tournament", { tournamentId });
+    this.watchedTournaments.add(tournamentId);
+    return response.tournament;
+  }
+
+  async unwatchTournament(tournamentId: string) {
+    await this.request("unwatch_tournament", { tournamentId });
+    this.watchedTournaments.delete(tournamentId);
+  }
+
+  async registerForTournament(tournamentId: string) {
+    return (await this.request("register_tournament", { tournamentId })).tournament;
+  }
+
+  async unregisterFromTournament(tournamentId: string) {
+    return (await this.request("unregister_tournament", { tournamentId })).tournament;
+  }
+
+  async confirmTournamentReady(tournamentId: string) {
+    await this.request("tournament_ready", { tournamentId });
+  }
+
+  // Administration
+
+  async adminCreateTournament(options: CreateTournamentOptions) {
+    return (await this.request("admin_create_tournament", options)).tournament;
+  }
+
+  async adminStartTournament(tournamentId: string) {
+    return (await this.request("admin_start_tournament", { tournamentId })).tournament;
+  }
+
+  async adminCancelTournament(tournamentId: string) {
+    return (await this.request("admin_cancel_tournament", { tournamentId })).tournament;
+  }
+
+  async adminListRooms() {
+    return (await this.request("admin_list_rooms", {})).rooms;
+  }
+
+  async adminGetRoom(roomId: string) {
+    return (await this.request("admin_get_room", { roomId })).room;
+  }
+
+  async adminEndRoom(roomId: string, winner?: PlayerNumber | null, reason?: string) {
+    await this.request("admin_end_room", { roomId, winner, reason });
+  }
+
+  async adminBanUser(request: RestrictUserRequest) {
+    return (await this.request("admin_ban_user", request)).until;
+  }
+
+  async adminMuteUser(request: RestrictUserRequest) {
+    return (await this.request("admin_mute_user", request)).until;
+  }
+
+  async adminResetStats(userId: string) {
+    await this.request("admin_reset_stats", { userId });
+  }
+
+  async adminSearchGames(query: GameSearchQuery = {}) {
+    return (await this.request("admin_search_games", query)).search;
+  }
+
+  /**
+   * Sends `event` once the connection is up and its session restored, and
+   * resolves with the successful response or rejects with a GameError.
+   * Requests are retried only while they can't have reached a server: the
+   * connection stayed down, or the node running the room didn't answer. A
+   * request that times out after being sent may have been applied, so it
+   * is never repeated.
+   */
+  async request<E extends ClientEvent>(event: E, payload: RequestPayload<E>): Promise<Response<E>> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.waitUntilReady()
+        ? await this.send(event, payload)
+        : { success: false, error: "unavailable", message: "ارتباط با سرور برقرار نیست" } as ErrorResponse;
+
+      if (response.success) return response as Response<E>;
+      if (response.error !== "unavailable" || attempt >= this.retries || this.status === "closed") {
+        throw new GameError(response.error, response.message);
+      }
+      await delay(this.retryDelay * 2 ** attempt);
+    }
+  }
+
+  private async send<E extends ClientEvent>(event: E, payload: RequestPayload<E>): Promise<AckResponse<E>> {
+    try {
+      return await ackEmitter(this.socket, this.requestTimeout).emitWithAck(event, payload);
+    } catch {
+      throw new GameError("unavailable", "سرور پاسخ نداد");
+    }
+  }
+
+  private waitUntilReady(): Promise<boolean> {
+    if (this.status === "connected") return Promise.resolve(true);
+    if (this.status === "closed") return Promise.resolve(false);
+
+    return new Promise(resolve => {
+      const finish = (ready: boolean) => {
+        clearTimeout(timer);
+        this.readyWaiters.delete(finish);
+        resolve(ready);
+      };
+      const timer = setTimeout(() => finish(false), this.requestTimeout);
+      this.readyWaiters.add(finish);
+    });
+  }
+
+  // Runs on every (re)connect before queued requests go out
+  private async restoreSession() {
+    try {
+      if (this.roomId && this.spectating) {
+        const response = await this.send("spectate_room", { roomId: this.roomId });
+        if (response.success) this.setState(response.gameState);
+        else this.setRoom(null, null, false);
+      } else if (this.roomId || this.sessionToken) {
+        await this.rejoinSeat();
+      }
+
+      for (const tournamentId of this.watchedTournaments) {
+        const response = await this.send("watch_tournament", { tournamentId });
+        if (!response.success) this.watchedTournaments.delete(tournamentId);
+      }
+    } catch (error) {
+      // The session is lost but the connection still works
+      this.dispatch("client_error", [error, "session_restore"]);
+    }
+
+    if (this.socket.connected) this.setStatus("connected");
+  }
+
+  private async rejoinSeat() {
+    // A page reload gets one try; a game we were just playing is worth waiting for
+    const attempts = this.gameState?.gameStatus === "active" && this.roomId ? REJOIN_ATTEMPTS : 1;
+
+    for (let attempt = 1; attempt <= attempts && this.socket.connected; attempt++) {
+      const response = await this.send("rejoin_room", { sessionToken: this.sessionToken });
+      if (response.success) return this.seat(response);
+      if (response.error !== "not_found") break;
+      if (attempt < attempts) await delay(REJOIN_RETRY_DELAY);
+    }
+
+    if (this.roomId) this.setRoom(null, null, false);
+  }
+
+  private seat(response: Response<"rejoin_room">) {
+    this.sessionToken = response.sessionToken;
+    this.setRoom(response.roomId, response.playerNumber, false);
+    this.setState(response.gameState);
+  }
+
+  // Keeps the local GameState in step with the events that change it
+  private mirror(event: string, payload: any) {
+    if (!payload || typeof payload !== "object") return;
+
+    if (event === "start_game") this.setRoom(payload.roomId, payload.playerNumber, false);
+    if (payload.gameState) return this.setState(payload.gameState);
+    if (!this.gameState) return;
+
+    switch (event) {
+      case "timer_update":
+        this.clockOffset = payload.serverTime - Date.now();
+        this.setState({
+          ...this.gameState,
+          turnDeadline: payload.turnDeadline,
+          timeLeft: payload.timeLeft,
+          clocks: payload.clocks
+        });
+        break;
+      case "spectator_update":
+        this.setState({ ...this.gameState, spectatorCount: payload.spectatorCount });
+        break;
+      case "card_issued":
+        this.setState({ ...this.gameState, warnings: payload.warnings });
+        break;
+    }
+  }
+
+  private setState(gameState: GameState) {
+    this.gameState = gameState;
+    this.dispatch("state_change", [gameState]);
+  }
+
+  private setRoom(roomId: string | null, playerNumber: PlayerNumber | null, spectating: boolean) {
+    if (roomId !== this.roomId) this.gameState = null;
+    this.roomId = roomId;
+    this.playerNumber = playerNumber;
+    this.spectating = spectating;
+    this.dispatch("room_change", [{ roomId, playerNumber, spectating }]);
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    if (status === "connected" || status === "closed") {
+      this.readyWaiters.forEach(finish => finish(status === "connected"));
+    }
+    this.dispatch("connection_change", [status]);
+  }
+
+  private currentRoom(): string {
+    if (!this.roomId) throw new GameError("not_in_room", "شما در هیچ اتاقی نیستید");
+    return this.roomId;
+  }
+
+  private dispatch(event: string, args: unknown[]) {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        // An error listener that throws itself has nowhere left to report to
+        if (event !== "client_error") this.dispatch("client_error", [error, `listener:${event}`]);
+      }
+    });
+  }
+}
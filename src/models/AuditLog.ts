@@ -0,0 +1,13 @@
+import mongoose from 'mongoose';
+
+const AuditLogSchema = new mongoose.Schema({
+  adminId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  action: { type: String, required: true },
+  target: { type: String },
+  details: { type: mongoose.Schema.Types.Mixed },
+  createdAt: { type: Date, default: Date.now }
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+
+export default mongoose.models.AuditLog || mongoose.model('AuditLog', AuditLogSchema);
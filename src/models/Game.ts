@@ -2,7 +2,9 @@ import mongoose from 'mongoose';
 
 
 const ChatMessageSchema = new mongoose.Schema({
-  sender: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  sender: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }, // unset for guests
+  senderName: { type: String },
+  playerNumber: { type: Number },
   message: { type: String, required: true },
   timestamp: { type: Date, default: Date.now }
 }, { _id: false });
@@ -12,6 +14,27 @@ const GameSchema = new mongoose.Schema({
   roomId: { type: String, required: true, unique: true },
   startedAt: { type: Date, default: Date.now },
   endedAt: { type: Date },
+  vsBot: { type: Boolean, default: false },
+  aborted: { type: Boolean, default: false }, // closed without a result, e.g. nobody came back after a restart
+  botLevel: { type: String },
+  series: {
+    id: { type: String },
+    gameNumber: { type: Number, default: 1 },
+    previousRoomId: { type: String }
+  },
+  tournament: {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'Tournament' },
+    matchId: { type: String }
+  },
+  settings: {
+    width: { type: Number, default: 5 },
+    height: { type: Number, default: 5 },
+    timeControl: { type: String, enum: ['per_move', 'bank'], default: 'per_move' },
+    turnTime: { type: Number, default: 30 },
+    bankTime: { type: Number, default: 180 },
+    increment: { type: Number, default: 2 },
+    extraTurnOnBox: { type: Boolean, default: true }
+  },
   players: [{
     userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
     playerNumber: { type: Number, required: true },
@@ -36,9 +59,30 @@ const GameSchema = new mongoose.Schema({
       player2: { type: Number, default: 0 }
     },
     winner: Number,
+    endReason: { type: String, enum: ['boxes_complete', 'resigned', 'draw_agreed', 'timeout', 'red_card', 'abandoned', 'admin'] },
+    clocks: { player1: Number, player2: Number }, // bank seconds left at the end, for bank time control
     duration: Number
   },
-  chat: [ChatMessageSchema] 
+  cards: [{
+    playerNumber: Number,
+    type: { type: String, enum: ['yellow', 'red'] },
+    reason: String,
+    timestamp: { type: Date, default: Date.now }
+  }],
+  reactions: [{
+    playerNumber: Number,
+    reactionId: String,
+    timestamp: { type: Date, default: Date.now }
+  }],
+  chat: [ChatMessageSchema],
+  // Room state after the latest move while the game is running, for restoring it after a restart
+  checkpoint: { type: mongoose.Schema.Types.Mixed },
+  checkpointedAt: { type: Date }
 });
 
+GameSchema.index({ 'players.userId': 1, endedAt: -1, _id: -1 });
+GameSchema.index({ endedAt: -1 });
+GameSchema.index({ 'series.id': 1, 'series.gameNumber': 1 });
+GameSchema.index({ checkpointedAt: 1 }, { sparse: true });
+
 export default mongoose.models.Game || mongoose.model('Game', GameSchema);
\ No newline at end of file
@@ -0,0 +1,14 @@
+import mongoose from 'mongoose';
+
+const OtpCodeSchema = new mongoose.Schema({
+  phone: { type: String, required: true, unique: true },
+  codeHash: { type: String, required: true },
+  attempts: { type: Number, default: 0 },
+  sentAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true }
+});
+
+// Let MongoDB drop expired codes on its own
+OtpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.OtpCode || mongoose.model('OtpCode', OtpCodeSchema);
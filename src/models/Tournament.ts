@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+
+const ParticipantSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  username: { type: String, required: true },
+  rating: { type: Number, default: 1200 },
+  seed: { type: Number },
+  registeredAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const BracketMatchSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  round: { type: Number, required: true },
+  index: { type: Number, required: true },
+  player1: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  player2: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  wins: {
+    player1: { type: Number, default: 0 },
+    player2: { type: Number, default: 0 }
+  },
+  games: [{ type: String }],
+  status: { type: String, enum: ['waiting', 'ready_check', 'playing', 'finished'], default: 'waiting' },
+  readyDeadline: { type: Date },
+  winner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  forfeit: { type: Boolean, default: false }
+}, { _id: false });
+
+const TournamentSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  status: { type: String, enum: ['registration', 'running', 'finished', 'cancelled'], default: 'registration' },
+  maxPlayers: { type: Number, required: true },
+  bestOf: { type: Number, default: 3 },
+  settings: {
+    width: { type: Number, default: 5 },
+    height: { type: Number, default: 5 },
+    timeControl: { type: String, enum: ['per_move', 'bank'], default: 'per_move' },
+    turnTime: { type: Number, default: 30 },
+    bankTime: { type: Number, default: 180 },
+    increment: { type: Number, default: 2 },
+    extraTurnOnBox: { type: Boolean, default: true }
+  },
+  participants: [ParticipantSchema],
+  matches: [BracketMatchSchema],
+  winner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  createdAt: { type: Date, default: Date.now },
+  startedAt: { type: Date },
+  endedAt: { type: Date }
+});
+
+TournamentSchema.index({ status: 1, createdAt: -1 });
+
+export default mongoose.models.Tournament || mongoose.model('Tournament', TournamentSchema);
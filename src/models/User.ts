@@ -5,17 +5,34 @@ const StatisticsSchema = new mongoose.Schema({
   wins: { type: Number, default: 0 },
   losses: { type: Number, default: 0 },
   draws: { type: Number, default: 0 },
-  totalScore: { type: Number, default: 0 }
+  totalScore: { type: Number, default: 0 },
+  rating: { type: Number, default: 1200 },
+  yellowCards: { type: Number, default: 0 },
+  redCards: { type: Number, default: 0 },
+  // How games were lost or drawn, on top of wins/losses/draws
+  resignations: { type: Number, default: 0 },
+  timeLosses: { type: Number, default: 0 },
+  abandonments: { type: Number, default: 0 },
+  agreedDraws: { type: Number, default: 0 }
 }, { _id: false });
 
 const UserSchema = new mongoose.Schema({
   phone: { type: String, required: true, unique: true },
   username: { type: String, required: true },
   ref: { type: String },
+  referralCode: { type: String, unique: true, sparse: true },
+  referredBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  referralRewarded: { type: Boolean, default: false },
+  credits: { type: Number, default: 0 },
   rol:{type: String ,default:"player"},
+  bannedUntil: { type: Date },
+  banReason: { type: String },
+  mutedUntil: { type: Date },
   createdAt: { type: Date, default: Date.now },
   lastLogin: { type: Date, default: Date.now },
   statistics: { type: StatisticsSchema, default: () => ({}) }
 });
 
+UserSchema.index({ referredBy: 1 });
+
 export default mongoose.models.User || mongoose.model('User', UserSchema);
\ No newline at end of file
@@ -0,0 +1,133 @@
+import mongoose from "mongoose";
+import AuditLog from "../models/AuditLog";
+import Game from "../models/Game";
+import User from "../models/User";
+import { GameError } from "./protocol";
+
+export type AdminAction =
+  | "list_rooms"
+  | "inspect_room"
+  | "end_room"
+  | "ban_user"
+  | "mute_user"
+  | "reset_stats"
+  | "search_games"
+  | "create_tournament"
+  | "start_tournament"
+  | "cancel_tournament";
+
+export interface GameSearchQuery {
+  userId?: string;
+  roomId?: string;
+  username?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+const MAX_SEARCH_PAGE_SIZE = 100;
+const MINUTE = 60 * 1000;
+
+function toObjectId(id: string): mongoose.Types.ObjectId {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new GameError("invalid_payload", "شناسه کاربر نامعتبر است");
+  return new mongoose.Types.ObjectId(id);
+}
+
+function toDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new GameError("invalid_payload", "تاریخ نامعتبر است");
+  return date;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns the admin account for `userId` or throws if it lacks the admin role.
+ */
+export async function requireAdmin(userId?: string) {
+  if (!userId) throw new GameError("unauthenticated", "ابتدا وارد حساب کاربری خود شوید");
+  const user = await User.findById(userId);
+  if (user?.rol !== "admin") throw new GameError("forbidden", "دسترسی مدیریت ندارید");
+  return user;
+}
+
+export async function writeAuditLog(adminId: mongoose.Types.ObjectId, action: AdminAction, target?: string, details?: unknown) {
+  await AuditLog.create({ adminId, action, target, details });
+}
+
+/**
+ * Throws if the user is currently banned.
+ */
+export function assertNotBanned(user: { bannedUntil?: Date; banReason?: string }) {
+  if (user.bannedUntil && user.bannedUntil.getTime() > Date.now()) {
+    throw new GameError("forbidden", `حساب شما تا ${user.bannedUntil.toISOString()} مسدود است${user.banReason ? `: ${user.banReason}` : ""}`);
+  }
+}
+
+export function isMuted(mutedUntil?: Date): boolean {
+  return !!mutedUntil && mutedUntil.getTime() > Date.now();
+}
+
+// A duration of 0 lifts the restriction
+function restrictionEnd(minutes: number): Date | null {
+  if (!Number.isFinite(minutes) || minutes < 0) throw new GameError("invalid_payload", "مدت زمان نامعتبر است");
+  return minutes === 0 ? null : new Date(Date.now() + minutes * MINUTE);
+}
+
+export async function banUser(adminId: mongoose.Types.ObjectId, userId: string, minutes: number, reason?: string) {
+  const bannedUntil = restrictionEnd(minutes);
+  const user = await User.findByIdAndUpdate(toObjectId(userId), { $set: { bannedUntil, banReason: reason } }, { new: true });
+  if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+
+  await writeAuditLog(adminId, "ban_user", userId, { minutes, reason });
+  return bannedUntil;
+}
+
+export async function muteUser(adminId: mongoose.Types.ObjectId, userId: string, minutes: number, reason?: string) {
+  const mutedUntil = restrictionEnd(minutes);
+  const user = await User.findByIdAndUpdate(toObjectId(userId), { $set: { mutedUntil } }, { new: true });
+  if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+
+  await writeAuditLog(adminId, "mute_user", userId, { minutes, reason });
+  return mutedUntil;
+}
+
+export async function resetUserStatistics(adminId: mongoose.Types.ObjectId, userId: string) {
+  const user = await User.findById(toObjectId(userId));
+  if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+
+  await User.updateOne({ _id: user._id }, { $set: { statistics: {} } });
+  await writeAuditLog(adminId, "reset_stats", userId, { previous: user.statistics });
+}
+
+export async function searchGames(adminId: mongoose.Types.ObjectId, query: GameSearchQuery) {
+  const filter: Record<string, unknown> = {};
+  if (query.userId) filter["players.userId"] = toObjectId(query.userId);
+  if (query.roomId) filter.roomId = query.roomId;
+  if (query.username) filter["players.username"] = new RegExp(escapeRegExp(query.username), "i");
+  if (query.from || query.to) {
+    filter.startedAt = {
+      ...(query.from && { $gte: toDate(query.from) }),
+      ...(query.to && { $lte: toDate(query.to) })
+    };
+  }
+
+  const page = Math.max(query.page ?? 1, 1);
+  const limit = Math.min(Math.max(query.limit ?? 20, 1), MAX_SEARCH_PAGE_SIZE);
+
+  const [games, total] = await Promise.all([
+    Game.find(filter)
+      .select("-gameState.lines -gameState.boxes -chat")
+      .sort({ startedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Game.countDocuments(filter)
+  ]);
+
+  await writeAuditLog(adminId, "search_games", undefined, query);
+  return { games, total, page, limit };
+}
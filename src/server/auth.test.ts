@@ -0,0 +1,69 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import OtpCode from "../models/OtpCode";
+import User from "../models/User";
+import { requestOtp, verifyOtp, verifySessionToken } from "./auth";
+import { getSmsProvider } from "./sms";
+
+const PHONE = "09121234567";
+
+// Sends a code to PHONE and returns it, keeping the stored hash for verifyOtp to find
+async function sendCode(): Promise<string> {
+  let codeHash = "";
+  let code = "";
+  mock.method(OtpCode, "findOne", async () => codeHash
+    ? { _id: new mongoose.Types.ObjectId(), codeHash, attempts: 0, expiresAt: new Date(Date.now() + 60 * 1000) }
+    : null);
+  mock.method(OtpCode, "findOneAndUpdate", async (_filter: object, update: { codeHash: string }) => {
+    codeHash = update.codeHash;
+  });
+  mock.method(getSmsProvider(), "send", async (_phone: string, message: string) => {
+    code = message.match(/\d+/)![0];
+  });
+
+  await requestOtp(PHONE);
+  return code;
+}
+
+describe("verifyOtp", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("rejects a malformed phone or code before looking anything up", async () => {
+    const findOne = mock.method(OtpCode, "findOne", async () => null);
+
+    await assert.rejects(verifyOtp(undefined as unknown as string, "12345"), { code: "invalid_payload" });
+    await assert.rejects(verifyOtp("12345", "12345"), { code: "invalid_payload" });
+    await assert.rejects(verifyOtp(PHONE, undefined as unknown as string), { code: "invalid_payload" });
+    await assert.rejects(verifyOtp(PHONE, { $ne: "" } as unknown as string), { code: "invalid_payload" });
+    assert.equal(findOne.mock.callCount(), 0);
+  });
+
+  it("signs a new user up and tells them when their referral code didn't apply", async () => {
+    const code = await sendCode();
+    const userId = new mongoose.Types.ObjectId();
+    mock.method(OtpCode, "deleteOne", async () => ({}));
+    mock.method(User, "findOne", async () => null);
+    mock.method(User, "create", async () => ({ _id: userId, username: "newcomer" }));
+    mock.method(User, "findById", async () => ({ _id: userId, phone: PHONE, referralCode: "OWN123" }));
+
+    const result = await verifyOtp(PHONE, code, "newcomer", "NOSUCH");
+
+    assert.equal(verifySessionToken(result.token)?.userId, userId.toString());
+    assert.deepEqual(result.user, { id: userId.toString(), username: "newcomer" });
+    assert.equal(result.referralError, "کد معرف نامعتبر است");
+  });
+
+  it("tells a returning user that referral codes are only for sign-up", async () => {
+    const code = await sendCode();
+    const userId = new mongoose.Types.ObjectId();
+    mock.method(OtpCode, "deleteOne", async () => ({}));
+    mock.method(User, "findOne", async () => ({ _id: userId, username: "regular" }));
+    mock.method(User, "findByIdAndUpdate", async () => ({}));
+
+    const result = await verifyOtp(PHONE, code, undefined, "FRIEND");
+
+    assert.equal(result.user.username, "regular");
+    assert.ok(result.referralError);
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+import OtpCode from "../models/OtpCode";
+import User from "../models/User";
+import { applyReferralCode, ensureReferralCode } from "./referral";
+import { getSmsProvider } from "./sms";
+import { GameError } from "./protocol";
+
+export interface SessionPayload {
+  userId: string;
+  phone: string;
+  exp: number; // unix seconds
+}
+
+const OTP_LENGTH = 5;
+const OTP_TTL = 2 * 60 * 1000; // 2 minutes in milliseconds
+const OTP_RESEND_COOLDOWN = 60 * 1000; // 1 minute in milliseconds
+const OTP_MAX_ATTEMPTS = 5;
+const SESSION_TTL = 30 * 24 * 60 * 60; // 30 days in seconds
+const PHONE_PATTERN = /^09\d{9}$/;
+
+// A secret made up at startup signs sessions only this process accepts, which
+// is fine while developing but logs everyone out on a restart and breaks
+// sessions that move between the nodes of a cluster
+if (!process.env.SESSION_SECRET && (process.env.NODE_ENV === "production" || process.env.REDIS_URL)) {
+  throw new Error("SESSION_SECRET must be set in production and when running with REDIS_URL");
+}
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET) {
+  console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+}
+
+function hashCode(phone: string, code: string): string {
+  return createHash("sha256").update(`${phone}:${code}:${SESSION_SECRET}`).digest("hex");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(data).digest("base64url");
+}
+
+export function signSessionToken(userId: string, phone: string): string {
+  const payload: SessionPayload = {
+    userId,
+    phone,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Returns the session for a valid, unexpired token, or null.
+ */
+export function verifySessionToken(token: string): SessionPayload | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const payload: SessionPayload = JSON.parse(Buffer.from(data, "base64url").toString());
+    if (payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function requestOtp(phone: string): Promise<{ expiresIn: number }> {
+  if (!PHONE_PATTERN.test(phone ?? "")) throw new GameError("invalid_payload", "شماره تلفن نامعتبر است");
+
+  const existing = await OtpCode.findOne({ phone });
+  if (existing && Date.now() - existing.sentAt.getTime() < OTP_RESEND_COOLDOWN) {
+    throw new GameError("rate_limited", "لطفا کمی بعد دوباره درخواست کد دهید");
+  }
+
+  const code = randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+  await OtpCode.findOneAndUpdate(
+    { phone },
+    { codeHash: hashCode(phone, code), attempts: 0, sentAt: new Date(), expiresAt: new Date(Date.now() + OTP_TTL) },
+    { upsert: true }
+  );
+
+  await getSmsProvider().send(phone, `کد ورود شما: ${code}`);
+  return { expiresIn: OTP_TTL / 1000 };
+}
+
+/**
+ * Checks the code, signs the user up on first login and returns a session token.
+ * A referral code is only honoured when the account is being created; when it
+ * can't be applied the login still succeeds and `referralError` says why.
+ */
+export async function verifyOtp(phone: string, code: string, username?: string, referralCode?: string) {
+  if (typeof phone !== "string" || !PHONE_PATTERN.test(phone)) throw new GameError("invalid_payload", "شماره تلفن نامعتبر است");
+  if (typeof code !== "string" || !code) throw new GameError("invalid_payload", "کد وارد شده نادرست است");
+  if (username !== undefined && typeof username !== "string") throw new GameError("invalid_payload", "نام کاربری نامعتبر است");
+  if (referralCode !== undefined && typeof referralCode !== "string") throw new GameError("invalid_payload", "کد معرف نامعتبر است");
+
+  const otp = await OtpCode.findOne({ phone });
+  if (!otp || otp.expiresAt.getTime() < Date.now()) throw new GameError("invalid_state", "کد منقضی شده است، دوباره درخواست دهید");
+
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) {
+    await OtpCode.deleteOne({ _id: otp._id });
+    throw new GameError("rate_limited", "تعداد تلاش‌ها بیش از حد مجاز است، دوباره درخواست دهید");
+  }
+
+  if (otp.codeHash !== hashCode(phone, code)) {
+    await OtpCode.updateOne({ _id: otp._id }, { $inc: { attempts: 1 } });
+    throw new GameError("invalid_payload", "کد وارد شده نادرست است");
+  }
+
+  await OtpCode.deleteOne({ _id: otp._id });
+
+  let user = await User.findOne({ phone });
+  let referralError: string | undefined;
+  if (!user) {
+    if (!username) throw new GameError("invalid_payload", "برای ثبت‌نام نام کاربری لازم است");
+    user = await User.create({ phone, username, lastLogin: new Date() });
+    await ensureReferralCode(user._id);
+
+    if (referralCode) {
+      try {
+        await applyReferralCode(user._id, referralCode);
+      } catch (error: any) {
+        if (!(error instanceof GameError)) console.error("Referral error:", error);
+        referralError = error instanceof GameError ? error.message : "ثبت کد معرف ناموفق بود";
+      }
+    }
+  } else {
+    await User.findByIdAndUpdate(user._id, { lastLogin: new Date() });
+    if (referralCode) referralError = "کد معرف فقط هنگام ثبت‌نام پذیرفته می‌شود";
+  }
+
+  return {
+    token: signSessionToken(user._id.toString(), phone),
+    user: { id: user._id.toString(), username: user.username },
+    ...(referralError && { referralError })
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BOT_LEVELS, chooseBotMove } from "./bot";
+import type { Line } from "./types";
+
+// Lines from a dot to its right and downward neighbours
+function h(row: number, col: number): Line {
+  return { start: { row, col }, end: { row, col: col + 1 }, player: 1 };
+}
+
+function v(row: number, col: number): Line {
+  return { start: { row, col }, end: { row: row + 1, col }, player: 1 };
+}
+
+function key(line: Pick<Line, "start" | "end">): string {
+  return `${line.start.row},${line.start.col}-${line.end.row},${line.end.col}`;
+}
+
+// Every line on a board of `rows` x `cols` dots except the ones listed
+function allLinesExcept(rows: number, cols: number, missing: Line[]): Line[] {
+  const skip = new Set(missing.map(key));
+  const lines: Line[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (col < cols - 1) lines.push(h(row, col));
+      if (row < rows - 1) lines.push(v(row, col));
+    }
+  }
+  return lines.filter(line => !skip.has(key(line)));
+}
+
+// Two rows of `width` boxes with every horizontal line drawn, so each row is
+// a chain. All but the last two boxes of the top one have been taken and the
+// bottom one is still untouched.
+function endOfChain(width: number): Line[] {
+  const bottomRow = Array.from({ length: width + 1 }, (_, col) => v(1, col));
+  return allLinesExcept(3, width + 1, [v(0, width - 1), v(0, width), ...bottomRow]);
+}
+
+describe("chooseBotMove", () => {
+  it("returns null once every line is drawn", () => {
+    for (const level of BOT_LEVELS) {
+      assert.equal(chooseBotMove(allLinesExcept(3, 3, []), 3, 3, 2, level), null);
+    }
+  });
+
+  it("plays as the player it is given", () => {
+    for (const level of BOT_LEVELS) {
+      assert.equal(chooseBotMove([], 3, 3, 2, level)?.player, 2);
+    }
+  });
+
+  it("takes a box that is there for the taking", () => {
+    // The top-left box is missing only its right side
+    const lines = [h(0, 0), h(1, 0), v(0, 0)];
+    for (const level of ["greedy", "strong"] as const) {
+      const move = chooseBotMove(lines, 4, 4, 2, level);
+      assert.ok(move);
+      assert.equal(key(move), key(v(0, 1)));
+    }
+  });
+
+  it("doesn't give a box its third side while a safe line is left", () => {
+    // Both left boxes of a 2x2 board have two sides, so only lines clear of them are safe
+    const lines = [h(0, 0), h(2, 0), v(0, 0), v(1, 0)];
+    const safe = [h(0, 1), h(1, 1), h(2, 1), v(0, 2), v(1, 2)].map(key);
+    for (const level of ["greedy", "strong"] as const) {
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const move = chooseBotMove(lines, 3, 3, 1, level);
+        assert.ok(move);
+        assert.ok(safe.includes(key(move)), `${level} played ${key(move)}`);
+      }
+    }
+  });
+
+  it("hands over the last two boxes of a chain to keep control of a longer one", () => {
+    const move = chooseBotMove(endOfChain(6), 3, 7, 1, "strong");
+    assert.ok(move);
+    assert.equal(key(move), key(v(0, 6)));
+  });
+
+  it("takes every box instead of double-dealing when no chain is left to win", () => {
+    // Only the top chain remains; the bottom row is already claimed
+    const move = chooseBotMove(allLinesExcept(3, 7, [v(0, 5), v(0, 6)]), 3, 7, 1, "strong");
+    assert.ok(move);
+    assert.equal(key(move), key(v(0, 5)));
+  });
+
+  it("takes the boxes when the chain left to win is no longer than the two handed over", () => {
+    const move = chooseBotMove(endOfChain(2), 3, 3, 1, "strong");
+    assert.ok(move);
+    assert.equal(key(move), key(v(0, 1)));
+  });
+});
@@ -0,0 +1,279 @@
+import type { Line, PlayerNumber } from "./types";
+
+export type BotLevel = "random" | "greedy" | "strong";
+
+export const BOT_LEVELS: BotLevel[] = ["random", "greedy", "strong"];
+
+export const BOT_NAMES: Record<BotLevel, string> = {
+  random: "ربات (آسان)",
+  greedy: "ربات (متوسط)",
+  strong: "ربات (سخت)"
+};
+
+interface Edge {
+  row: number;
+  col: number;
+  horizontal: boolean;
+}
+
+interface Component {
+  size: number;
+  isLoop: boolean;
+}
+
+// Lightweight board model for move search. `rows` and `cols` count dots,
+// so the board has (rows - 1) x (cols - 1) boxes.
+class Board {
+  rows: number;
+  cols: number;
+  drawn: Set<string>;
+
+  constructor(rows: number, cols: number, lines: Line[]) {
+    this.rows = rows;
+    this.cols = cols;
+    this.drawn = new Set(lines.map(line => edgeKey(lineToEdge(line))));
+  }
+
+  clone(): Board {
+    const board = new Board(this.rows, this.cols, []);
+    board.drawn = new Set(this.drawn);
+    return board;
+  }
+
+  isDrawn(edge: Edge): boolean {
+    return this.drawn.has(edgeKey(edge));
+  }
+
+  draw(edge: Edge) {
+    this.drawn.add(edgeKey(edge));
+  }
+
+  availableEdges(): Edge[] {
+    const edges: Edge[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (col < this.cols - 1) edges.push({ row, col, horizontal: true });
+        if (row < this.rows - 1) edges.push({ row, col, horizontal: false });
+      }
+    }
+    return edges.filter(edge => !this.isDrawn(edge));
+  }
+
+  boxEdges(row: number, col: number): Edge[] {
+    return [
+      { row, col, horizontal: true },
+      { row: row + 1, col, horizontal: true },
+      { row, col, horizontal: false },
+      { row, col: col + 1, horizontal: false }
+    ];
+  }
+
+  sides(row: number, col: number): number {
+    return this.boxEdges(row, col).filter(edge => this.isDrawn(edge)).length;
+  }
+
+  // Boxes on either side of an edge that lie inside the board
+  adjacentBoxes(edge: Edge): [number, number][] {
+    const boxes: [number, number][] = edge.horizontal
+      ? [[edge.row - 1, edge.col], [edge.row, edge.col]]
+      : [[edge.row, edge.col - 1], [edge.row, edge.col]];
+    return boxes.filter(([row, col]) => row >= 0 && col >= 0 && row < this.rows - 1 && col < this.cols - 1);
+  }
+
+  completes(edge: Edge): number {
+    return this.adjacentBoxes(edge).filter(([row, col]) => this.sides(row, col) === 3).length;
+  }
+
+  // A safe edge gives no box its third side
+  isSafe(edge: Edge): boolean {
+    return this.adjacentBoxes(edge).every(([row, col]) => this.sides(row, col) < 2);
+  }
+
+  capturingEdges(): Edge[] {
+    return this.availableEdges().filter(edge => this.completes(edge) > 0);
+  }
+
+  // Takes every capturable box in turn and returns how many were taken
+  captureAll(): number {
+    let captured = 0;
+    let edge = this.capturingEdges()[0];
+    while (edge) {
+      captured += this.completes(edge);
+      this.draw(edge);
+      edge = this.capturingEdges()[0];
+    }
+    return captured;
+  }
+
+  // Groups the unclaimed boxes into chains and loops joined by undrawn edges
+  components(): Component[] {
+    const seen = new Set<string>();
+    const components: Component[] = [];
+
+    for (let row = 0; row < this.rows - 1; row++) {
+      for (let col = 0; col < this.cols - 1; col++) {
+        if (seen.has(`${row},${col}`) || this.sides(row, col) === 4) continue;
+
+        let size = 0;
+        let isLoop = true;
+        const stack: [number, number][] = [[row, col]];
+        seen.add(`${row},${col}`);
+
+        while (stack.length > 0) {
+          const [r, c] = stack.pop()!;
+          size++;
+          const openEdges = this.boxEdges(r, c).filter(edge => !this.isDrawn(edge));
+          if (openEdges.length !== 2) isLoop = false;
+
+          for (const edge of openEdges) {
+            const neighbour = this.adjacentBoxes(edge).find(([nr, nc]) => nr !== r || nc !== c);
+            if (!neighbour) {
+              isLoop = false;
+              continue;
+            }
+            const key = `${neighbour[0]},${neighbour[1]}`;
+            if (!seen.has(key)) {
+              seen.add(key);
+              stack.push(neighbour);
+            }
+          }
+        }
+
+        components.push({ size, isLoop });
+      }
+    }
+
+    return components;
+  }
+}
+
+function lineToEdge(line: Pick<Line, "start" | "end">): Edge {
+  const horizontal = line.start.row === line.end.row;
+  return {
+    row: Math.min(line.start.row, line.end.row),
+    col: Math.min(line.start.col, line.end.col),
+    horizontal
+  };
+}
+
+function edgeToLine(edge: Edge, player: PlayerNumber): Line {
+  return {
+    start: { row: edge.row, col: edge.col },
+    end: edge.horizontal ? { row: edge.row, col: edge.col + 1 } : { row: edge.row + 1, col: edge.col },
+    player
+  };
+}
+
+function edgeKey(edge: Edge): string {
+  return `${edge.row},${edge.col},${edge.horizontal ? "h" : "v"}`;
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// Estimated margin for whoever keeps control of the remaining chains: they take
+// each one but hand back 2 boxes per chain (4 per loop), except for the last.
+function controlMargin(components: Component[]): number {
+  const sorted = [...components].sort((a, b) => a.size - b.size);
+  return sorted.reduce((margin, component, index) => {
+    if (index === sorted.length - 1) return margin + component.size;
+    const sacrifice = Math.min(component.size, component.isLoop ? 4 : 2);
+    return margin + component.size - 2 * sacrifice;
+  }, 0);
+}
+
+// Sacrifices the fewest boxes; on ties prefer the move leaving more separate
+// three-sided boxes, which denies the opponent a double-dealing reply.
+function cheapestSacrifice(board: Board, edges: Edge[]): Edge {
+  let best = edges[0];
+  let bestGiven = Infinity;
+  let bestOpen = -1;
+
+  for (const edge of edges) {
+    const next = board.clone();
+    next.draw(edge);
+    const open = next.capturingEdges().length;
+    const given = next.captureAll();
+
+    if (given < bestGiven || (given === bestGiven && open > bestOpen)) {
+      best = edge;
+      bestGiven = given;
+      bestOpen = open;
+    }
+  }
+
+  return best;
+}
+
+// Looks for a move that hands over the last 2 boxes of a chain (4 of a loop)
+// so the opponent must open the next chain, and plays it when keeping control
+// is worth more than the boxes given up.
+function findDoubleDeal(board: Board, edges: Edge[]): Edge | null {
+  const pending = board.clone().captureAll();
+  if (pending !== 2 && pending !== 4) return null;
+
+  for (const edge of edges) {
+    if (board.completes(edge) > 0) continue;
+
+    const next = board.clone();
+    next.draw(edge);
+    if (next.captureAll() !== pending) continue;
+    if (next.availableEdges().some(e => next.isSafe(e))) continue;
+
+    if (controlMargin(next.components()) > pending) return edge;
+  }
+
+  return null;
+}
+
+function chooseGreedy(board: Board, edges: Edge[]): Edge {
+  const capturing = edges.filter(edge => board.completes(edge) > 0);
+  if (capturing.length > 0) return pickRandom(capturing);
+
+  const safe = edges.filter(edge => board.isSafe(edge));
+  if (safe.length > 0) return pickRandom(safe);
+
+  return pickRandom(edges);
+}
+
+function chooseStrong(board: Board, edges: Edge[]): Edge {
+  const capturing = edges.filter(edge => board.completes(edge) > 0);
+  const safe = edges.filter(edge => board.isSafe(edge));
+
+  if (capturing.length > 0) {
+    if (safe.length === 0) {
+      const doubleDeal = findDoubleDeal(board, edges);
+      if (doubleDeal) return doubleDeal;
+    }
+    return capturing[0];
+  }
+
+  if (safe.length > 0) return pickRandom(safe);
+
+  return cheapestSacrifice(board, edges);
+}
+
+/**
+ * Picks the bot's next line. `rows` and `cols` are the number of dots along
+ * each side of the board.
+ */
+export function chooseBotMove(lines: Line[], rows: number, cols: number, player: PlayerNumber, level: BotLevel): Line | null {
+  const board = new Board(rows, cols, lines);
+  const edges = board.availableEdges();
+  if (edges.length === 0) return null;
+
+  let edge: Edge;
+  switch (level) {
+    case "greedy":
+      edge = chooseGreedy(board, edges);
+      break;
+    case "strong":
+      edge = chooseStrong(board, edges);
+      break;
+    default:
+      edge = pickRandom(edges);
+  }
+
+  return edgeToLine(edge, player);
+}
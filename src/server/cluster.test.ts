@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GameClient } from "../client";
+import { LocalRedis, LocalRedisServer } from "./redis";
+import { GameServerHandle, createGameServer } from "./server";
+import { connectClient, nextEvent, stubDatabase } from "./testing";
+
+describe("two nodes sharing a Redis", () => {
+  let redisA: LocalRedis;
+  let redisB: LocalRedis;
+  let nodeA: GameServerHandle;
+  let nodeB: GameServerHandle;
+  let clients: GameClient[];
+
+  beforeEach(async () => {
+    stubDatabase();
+    const redis = new LocalRedisServer();
+    redisA = new LocalRedis(redis);
+    redisB = new LocalRedis(redis);
+    nodeA = await createGameServer({ nodeId: "a", redis: redisA });
+    nodeB = await createGameServer({ nodeId: "b", redis: redisB });
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await nodeA.close();
+    await nodeB.close();
+    await redisA.quit();
+    await redisB.quit();
+    mock.restoreAll();
+  });
+
+  function connect(node: GameServerHandle, sessionToken?: string): GameClient {
+    const client = connectClient(node.port, { sessionToken });
+    clients.push(client);
+    return client;
+  }
+
+  // A host on node A and a guest on node B, playing in a room node A runs
+  async function startMatch(): Promise<[GameClient, GameClient]> {
+    const host = connect(nodeA);
+    const guest = connect(nodeB);
+
+    const started = Promise.all([nextEvent(host, "start_game"), nextEvent(guest, "start_game")]);
+    const { code } = await host.createPrivateRoom({ username: "host" });
+    assert.ok(code);
+    await guest.joinPrivateRoom(code, "guest");
+    await started;
+    return [host, guest];
+  }
+
+  function playFirstLine(clients: GameClient[]) {
+    const mover = clients.find(client => client.playerNumber === client.gameState?.currentPlayer)!;
+    const updates = Promise.all(clients.map(client =>
+      nextEvent(client, "game_update", ({ gameState }) => gameState.lines.length === 1)
+    ));
+    return mover.makeMove({ start: { row: 0, col: 0 }, end: { row: 0, col: 1 } }).then(() => updates);
+  }
+
+  it("forwards events to the node running the room and broadcasts back", { timeout: 10 * 1000 }, async () => {
+    const [host, guest] = await startMatch();
+
+    assert.equal(guest.roomId, host.roomId);
+    assert.deepEqual([host.playerNumber, guest.playerNumber].sort(), [1, 2]);
+
+    await playFirstLine([host, guest]);
+    assert.deepEqual(guest.gameState, host.gameState);
+  });
+
+  it("hands the room over when its node goes away", { timeout: 30 * 1000 }, async () => {
+    const [host, guest] = await startMatch();
+    const { roomId, sessionToken } = host;
+
+    // Node B notices at its next lease check and marks the host's seat as dropped
+    const takenOver = nextEvent(guest, "opponent_disconnected", () => true, 15 * 1000);
+    await nodeA.close();
+    await redisA.quit();
+    await takenOver;
+
+    // The host reloads and lands on node B
+    const returning = connect(nodeB, sessionToken);
+    await nextEvent(returning, "room_change", room => room.roomId === roomId);
+    assert.equal(returning.playerNumber, host.playerNumber);
+
+    await playFirstLine([returning, guest]);
+    assert.deepEqual(guest.gameState, returning.gameState);
+  });
+});
@@ -0,0 +1,41 @@
+// socket.io adapter that relays broadcasts, room joins and server-side
+// events between nodes over Redis pub/sub, so `io.to(room).emit(...)`
+// reaches players connected to any node.
+import { ClusterAdapterWithHeartbeat, ClusterAdapterOptions, ClusterMessage, ClusterResponse } from "socket.io-adapter";
+import type { RedisClient } from "./redis";
+
+const CHANNEL_PREFIX = "dotline#";
+
+// Packets are JSON encoded, so binary attachments are not supported
+class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  redis: RedisClient;
+  channel: string;
+
+  constructor(nsp: any, redis: RedisClient, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.redis = redis;
+    this.channel = `${CHANNEL_PREFIX}${nsp.name}#`;
+
+    redis.subscribe(this.channel, message => this.onMessage(JSON.parse(message)));
+    redis.subscribe(`${this.channel}${this.uid}#`, message => this.onResponse(JSON.parse(message)));
+  }
+
+  protected async doPublish(message: ClusterMessage) {
+    await this.redis.publish(this.channel, JSON.stringify(message));
+    return "";
+  }
+
+  protected async doPublishResponse(requesterUid: string, response: ClusterResponse) {
+    await this.redis.publish(`${this.channel}${requesterUid}#`, JSON.stringify(response));
+  }
+}
+
+// socket.io calls the adapter with `new`, so this can't be an arrow function
+export function createPubSubAdapter(redis: RedisClient, opts: ClusterAdapterOptions = {}) {
+  return function (nsp: any) {
+    const adapter = new PubSubAdapter(nsp, redis, opts);
+    // Announces this node; socket.io itself doesn't call init()
+    adapter.init();
+    return adapter;
+  };
+}
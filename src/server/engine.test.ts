@@ -0,0 +1,169 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyMove, determineWinner } from "./engine";
+import { DEFAULT_SETTINGS, RoomSettings } from "./settings";
+import type { GameState, Line, PlayerNumber } from "./types";
+
+function createState(settings: Partial<RoomSettings> = {}, overrides: Partial<GameState> = {}): GameState {
+  return {
+    lines: [],
+    boxes: [],
+    currentPlayer: 1,
+    scores: { player1: 0, player2: 0 },
+    warnings: { player1: { yellow: 0, red: 0 }, player2: { yellow: 0, red: 0 } },
+    gameStatus: "active",
+    winner: null,
+    endReason: null,
+    isPaused: false,
+    pause: { requestedBy: null, requestExpiresAt: null, resumeAt: null, remaining: { player1: 2, player2: 2 } },
+    drawOffer: { offeredBy: null, lastOfferedAt: { player1: null, player2: null } },
+    timeLeft: 30,
+    turnDeadline: null,
+    clocks: null,
+    soundEnabled: true,
+    playerNames: { player1: "a", player2: "b" },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    spectatorCount: 0,
+    series: { id: "series", gameNumber: 1, wins: { player1: 0, player2: 0 }, draws: 0 },
+    ...overrides
+  };
+}
+
+function line(startRow: number, startCol: number, endRow: number, endCol: number, player: PlayerNumber): Line {
+  return { start: { row: startRow, col: startCol }, end: { row: endRow, col: endCol }, player };
+}
+
+// Plays `moves` in order, each by whoever is on turn, and fails on the first rejection
+function play(state: GameState, moves: [number, number, number, number][]): GameState {
+  for (const [startRow, startCol, endRow, endCol] of moves) {
+    const result = applyMove(state, line(startRow, startCol, endRow, endCol, state.currentPlayer));
+    assert.ok(result.ok, `move ${startRow},${startCol}-${endRow},${endCol} was rejected`);
+    state = result.state;
+  }
+  return state;
+}
+
+// The four sides of the top-left box, in drawing order
+const TOP_LEFT_BOX: [number, number, number, number][] = [[0, 0, 0, 1], [0, 1, 1, 1], [1, 0, 1, 1], [0, 0, 1, 0]];
+
+describe("applyMove", () => {
+  it("rejects moves once the game is not active", () => {
+    const result = applyMove(createState({}, { gameStatus: "ended" }), line(0, 0, 0, 1, 1));
+    assert.deepEqual(result, { ok: false, reason: "game_not_active" });
+  });
+
+  it("rejects moves by the player not on turn", () => {
+    const result = applyMove(createState(), line(0, 0, 0, 1, 2));
+    assert.deepEqual(result, { ok: false, reason: "not_your_turn" });
+  });
+
+  it("rejects diagonal lines", () => {
+    const result = applyMove(createState(), line(0, 0, 1, 1, 1));
+    assert.deepEqual(result, { ok: false, reason: "invalid_line" });
+  });
+
+  it("rejects lines longer than one dot", () => {
+    const result = applyMove(createState(), line(0, 0, 0, 2, 1));
+    assert.deepEqual(result, { ok: false, reason: "invalid_line" });
+  });
+
+  it("rejects lines off the board", () => {
+    const state = createState({ width: 2, height: 2 });
+    assert.deepEqual(applyMove(state, line(0, 2, 0, 3, 1)), { ok: false, reason: "invalid_line" });
+    assert.deepEqual(applyMove(state, line(-1, 0, 0, 0, 1)), { ok: false, reason: "invalid_line" });
+    assert.deepEqual(applyMove(state, line(2, 0, 3, 0, 1)), { ok: false, reason: "invalid_line" });
+  });
+
+  it("rejects non-integer coordinates", () => {
+    const result = applyMove(createState(), line(0, 0.5, 0, 1.5, 1));
+    assert.deepEqual(result, { ok: false, reason: "invalid_line" });
+  });
+
+  it("rejects lines that are already drawn, in either direction", () => {
+    const state = play(createState(), [[0, 0, 0, 1]]);
+    assert.deepEqual(applyMove(state, line(0, 0, 0, 1, 2)), { ok: false, reason: "line_taken" });
+    assert.deepEqual(applyMove(state, line(0, 1, 0, 0, 2)), { ok: false, reason: "line_taken" });
+  });
+
+  it("adds the line and passes the turn without modifying the input", () => {
+    const state = createState();
+    const result = applyMove(state, line(0, 0, 0, 1, 1));
+
+    assert.ok(result.ok);
+    assert.equal(result.boxesCompleted, 0);
+    assert.equal(result.state.lines.length, 1);
+    assert.equal(result.state.currentPlayer, 2);
+    assert.equal(state.lines.length, 0);
+    assert.equal(state.currentPlayer, 1);
+  });
+
+  it("credits a completed box to whoever drew its last side", () => {
+    const state = play(createState(), TOP_LEFT_BOX);
+
+    assert.deepEqual(state.boxes, [{ topLeft: { row: 0, col: 0 }, player: 2, id: "box-0-0" }]);
+    assert.deepEqual(state.scores, { player1: 0, player2: 1 });
+  });
+
+  it("keeps the turn after completing a box when extraTurnOnBox is on", () => {
+    const state = play(createState({ extraTurnOnBox: true }), TOP_LEFT_BOX);
+    assert.equal(state.currentPlayer, 2);
+  });
+
+  it("passes the turn after completing a box when extraTurnOnBox is off", () => {
+    const state = play(createState({ extraTurnOnBox: false }), TOP_LEFT_BOX);
+    assert.equal(state.currentPlayer, 1);
+  });
+
+  it("counts two boxes closed by one shared line", () => {
+    const state = play(createState(), [
+      [0, 0, 0, 1], [0, 1, 0, 2], [1, 0, 1, 1], [1, 1, 1, 2], [0, 0, 1, 0], [0, 2, 1, 2]
+    ]);
+    const result = applyMove(state, line(0, 1, 1, 1, state.currentPlayer));
+
+    assert.ok(result.ok);
+    assert.equal(result.boxesCompleted, 2);
+    assert.equal(result.state.scores[`player${state.currentPlayer}`], 2);
+  });
+
+  it("follows the board size on non-square boards", () => {
+    const state = createState({ width: 3, height: 2 });
+
+    // Three boxes wide means dots up to column 3, two high means rows up to 2
+    assert.ok(applyMove(state, line(0, 2, 0, 3, 1)).ok);
+    assert.ok(applyMove(state, line(1, 3, 2, 3, 1)).ok);
+    assert.deepEqual(applyMove(state, line(2, 0, 3, 0, 1)), { ok: false, reason: "invalid_line" });
+    assert.deepEqual(applyMove(state, line(0, 3, 0, 4, 1)), { ok: false, reason: "invalid_line" });
+  });
+
+  it("ends the game with the winner once every box is taken", () => {
+    // On a 2x1 board six lines leave only the middle one, which closes both boxes
+    let state = play(createState({ width: 2, height: 1, extraTurnOnBox: false }), [
+      [0, 0, 0, 1], [0, 1, 0, 2], [1, 0, 1, 1], [1, 1, 1, 2], [0, 0, 1, 0], [0, 2, 1, 2]
+    ]);
+    assert.equal(state.gameStatus, "active");
+    assert.equal(state.currentPlayer, 1);
+
+    state = play(state, [[0, 1, 1, 1]]);
+    assert.equal(state.gameStatus, "ended");
+    assert.deepEqual(state.scores, { player1: 2, player2: 0 });
+    assert.equal(state.winner, 1);
+  });
+
+  it("ends a drawn game without a winner", () => {
+    const state = play(createState({ width: 2, height: 1, extraTurnOnBox: false }), [
+      [0, 0, 0, 1], [1, 0, 1, 1], [0, 0, 1, 0], [0, 1, 1, 1], [0, 1, 0, 2], [1, 1, 1, 2], [0, 2, 1, 2]
+    ]);
+
+    assert.equal(state.gameStatus, "ended");
+    assert.deepEqual(state.scores, { player1: 1, player2: 1 });
+    assert.equal(state.winner, null);
+  });
+});
+
+describe("determineWinner", () => {
+  it("picks the higher score, or nobody on a tie", () => {
+    assert.equal(determineWinner({ player1: 3, player2: 1 }), 1);
+    assert.equal(determineWinner({ player1: 0, player2: 4 }), 2);
+    assert.equal(determineWinner({ player1: 2, player2: 2 }), null);
+  });
+});
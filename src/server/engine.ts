@@ -0,0 +1,165 @@
+// Pure dots-and-boxes rules. Nothing in here touches sockets, timers or the
+// database: every function takes a state and returns a result.
+import type { Box, Coordinates, GameState, Line, PlayerNumber } from "./types";
+import { RoomSettings, totalBoxes } from "./settings";
+
+export type MoveRejection =
+  | "game_not_active"
+  | "not_your_turn"
+  | "invalid_line"
+  | "line_taken";
+
+export type MoveResult =
+  | { ok: true; state: GameState; boxesCompleted: number }
+  | { ok: false; reason: MoveRejection };
+
+export function otherPlayer(player: PlayerNumber): PlayerNumber {
+  return player === 1 ? 2 : 1;
+}
+
+export function determineWinner(scores: GameState["scores"]): PlayerNumber | null {
+  if (scores.player1 > scores.player2) return 1;
+  if (scores.player2 > scores.player1) return 2;
+  return null;
+}
+
+function isOnBoard(point: Coordinates, settings: RoomSettings): boolean {
+  return Number.isInteger(point?.row) && Number.isInteger(point?.col) &&
+    point.row >= 0 && point.row <= settings.height &&
+    point.col >= 0 && point.col <= settings.width;
+}
+
+/**
+ * A valid line joins two neighbouring dots horizontally or vertically.
+ */
+export function isValidLine(line: Pick<Line, "start" | "end">, settings: RoomSettings): boolean {
+  if (!line || !isOnBoard(line.start, settings) || !isOnBoard(line.end, settings)) return false;
+
+  const rowDistance = Math.abs(line.start.row - line.end.row);
+  const colDistance = Math.abs(line.start.col - line.end.col);
+  return rowDistance + colDistance === 1;
+}
+
+export function findLine(lines: Line[], start: Coordinates, end: Coordinates): Line | undefined {
+  return lines.find(line =>
+    (line.start.row === start.row && line.start.col === start.col &&
+      line.end.row === end.row && line.end.col === end.col) ||
+    (line.start.row === end.row && line.start.col === end.col &&
+      line.end.row === start.row && line.end.col === start.col)
+  );
+}
+
+export function isLineAlreadyDrawn(gameState: Pick<GameState, "lines">, move: Pick<Line, "start" | "end">): boolean {
+  return findLine(gameState.lines, move.start, move.end) !== undefined;
+}
+
+export function getAvailableMoves(gameState: Pick<GameState, "lines" | "currentPlayer" | "settings">): Line[] {
+  const availableMoves: Line[] = [];
+  const { width, height } = gameState.settings;
+
+  for (let row = 0; row <= height; row++) {
+    for (let col = 0; col <= width; col++) {
+      // Horizontal lines
+      if (col < width) {
+        const horizontalLine: Line = {
+          start: { row, col },
+          end: { row, col: col + 1 },
+          player: gameState.currentPlayer
+        };
+        if (!isLineAlreadyDrawn(gameState, horizontalLine)) {
+          availableMoves.push(horizontalLine);
+        }
+      }
+
+      // Vertical lines
+      if (row < height) {
+        const verticalLine: Line = {
+          start: { row, col },
+          end: { row: row + 1, col },
+          player: gameState.currentPlayer
+        };
+        if (!isLineAlreadyDrawn(gameState, verticalLine)) {
+          availableMoves.push(verticalLine);
+        }
+      }
+    }
+  }
+
+  return availableMoves;
+}
+
+/**
+ * Returns every completed box, credited to whoever drew its last side.
+ */
+export function checkForBoxes(lines: Line[], settings: RoomSettings): Box[] {
+  const boxes: Box[] = [];
+
+  for (let row = 0; row < settings.height; row++) {
+    for (let col = 0; col < settings.width; col++) {
+      const topLeft = { row, col };
+      const topRight = { row, col: col + 1 };
+      const bottomLeft = { row: row + 1, col };
+      const bottomRight = { row: row + 1, col: col + 1 };
+
+      const topLine = findLine(lines, topLeft, topRight);
+      const rightLine = findLine(lines, topRight, bottomRight);
+      const bottomLine = findLine(lines, bottomLeft, bottomRight);
+      const leftLine = findLine(lines, topLeft, bottomLeft);
+
+      if (topLine && rightLine && bottomLine && leftLine) {
+        const lastLine = [topLine, rightLine, bottomLine, leftLine].reduce((latest, line) =>
+          lines.indexOf(line) > lines.indexOf(latest) ? line : latest
+        );
+
+        boxes.push({
+          topLeft,
+          player: lastLine.player,
+          id: `box-${topLeft.row}-${topLeft.col}`
+        });
+      }
+    }
+  }
+
+  return boxes;
+}
+
+/**
+ * Applies `move` for `move.player` and returns the next state, or the reason
+ * the move is not allowed. The input state is never modified.
+ */
+export function applyMove(state: GameState, move: Line): MoveResult {
+  if (state.gameStatus !== "active") return { ok: false, reason: "game_not_active" };
+  if (move.player !== state.currentPlayer) return { ok: false, reason: "not_your_turn" };
+  if (!isValidLine(move, state.settings)) return { ok: false, reason: "invalid_line" };
+  if (isLineAlreadyDrawn(state, move)) return { ok: false, reason: "line_taken" };
+
+  const line: Line = {
+    start: { row: move.start.row, col: move.start.col },
+    end: { row: move.end.row, col: move.end.col },
+    player: move.player,
+    timestamp: move.timestamp
+  };
+  const lines = [...state.lines, line];
+  const boxes = checkForBoxes(lines, state.settings);
+  const boxesCompleted = boxes.length - state.boxes.length;
+
+  const scores = { ...state.scores };
+  scores[`player${move.player}`] += boxesCompleted;
+
+  const keepsTurn = boxesCompleted > 0 && state.settings.extraTurnOnBox;
+  const isFinished = boxes.length >= totalBoxes(state.settings);
+
+  return {
+    ok: true,
+    boxesCompleted,
+    state: {
+      ...state,
+      lines,
+      boxes,
+      scores,
+      currentPlayer: keepsTurn ? state.currentPlayer : otherPlayer(state.currentPlayer),
+      gameStatus: isFinished ? "ended" : state.gameStatus,
+      winner: isFinished ? determineWinner(scores) : state.winner
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import mongoose from "mongoose";
+import Game from "../models/Game";
+import type { EndReason } from "./types";
+import { GameError } from "./protocol";
+
+export type MatchResult = "win" | "loss" | "draw";
+
+export interface MatchHistoryItem {
+  roomId: string;
+  opponent: { userId?: string; username: string };
+  scores: { mine: number; opponent: number };
+  result: MatchResult;
+  endReason: EndReason | null;
+  duration: number;
+  date: Date;
+}
+
+export interface HeadToHead {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface MatchHistoryQuery {
+  userId: string;
+  cursor?: string;
+  limit?: number;
+  result?: MatchResult;
+  from?: Date;
+  to?: Date;
+  opponentId?: string;
+}
+
+export interface MatchHistoryPage {
+  matches: MatchHistoryItem[];
+  nextCursor: string | null;
+  headToHead?: HeadToHead;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MATCH_RESULTS: MatchResult[] = ["win", "loss", "draw"];
+
+function toObjectId(id: string, label: string): mongoose.Types.ObjectId {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new GameError("invalid_payload", `${label} نامعتبر است`);
+  return new mongoose.Types.ObjectId(id);
+}
+
+// Filter values arrive as strings over both HTTP and the socket; empty means no filter
+export function parseMatchResult(value: string | null | undefined): MatchResult | undefined {
+  if (!value) return undefined;
+  if (!MATCH_RESULTS.includes(value as MatchResult)) throw new GameError("invalid_payload", "فیلتر نتیجه نامعتبر است");
+  return value as MatchResult;
+}
+
+export function parseHistoryDate(value: string | null | undefined): Date | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) throw new GameError("invalid_payload", "تاریخ نامعتبر است");
+  return parsed;
+}
+
+// Cursors point at the last returned game as "<endedAt ms>_<game id>"
+function encodeCursor(endedAt: Date, id: mongoose.Types.ObjectId): string {
+  return Buffer.from(`${endedAt.getTime()}_${id.toString()}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { endedAt: Date; id: mongoose.Types.ObjectId } {
+  const [time, id] = Buffer.from(cursor, "base64url").toString().split("_");
+  if (!time || !id || !mongoose.Types.ObjectId.isValid(id)) throw new GameError("invalid_payload", "مکان‌نمای صفحه نامعتبر است");
+  return { endedAt: new Date(Number(time)), id: new mongoose.Types.ObjectId(id) };
+}
+
+function resultFilter(userId: mongoose.Types.ObjectId, result: MatchResult) {
+  if (result === "draw") return { "gameState.winner": null };
+
+  const seats = [1, 2].map(playerNumber => ({
+    players: { $elemMatch: { userId, playerNumber } },
+    "gameState.winner": result === "win" ? playerNumber : 3 - playerNumber
+  }));
+  return { $or: seats };
+}
+
+function toHistoryItem(game: any, userId: mongoose.Types.ObjectId): MatchHistoryItem {
+  const me = game.players.find((p: any) => p.userId?.equals(userId));
+  const opponent = game.players.find((p: any) => p !== me);
+  const winner = game.gameState?.winner ?? null;
+  const scores = game.gameState?.scores ?? { player1: 0, player2: 0 };
+
+  return {
+    roomId: game.roomId,
+    opponent: { userId: opponent?.userId?.toString(), username: opponent?.username ?? "" },
+    scores: {
+      mine: scores[`player${me.playerNumber}`] ?? 0,
+      opponent: opponent ? scores[`player${opponent.playerNumber}`] ?? 0 : 0
+    },
+    result: winner === null ? "draw" : winner === me.playerNumber ? "win" : "loss",
+    endReason: game.gameState?.endReason ?? null,
+    duration: game.gameState?.duration ?? 0,
+    date: game.endedAt
+  };
+}
+
+/**
+ * Returns a user's finished games, newest first, one page at a time.
+ */
+export async function getMatchHistory(query: MatchHistoryQuery): Promise<MatchHistoryPage> {
+  const userId = toObjectId(query.userId, "شناسه کاربر");
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const baseFilter: Record<string, unknown> = {
+    "players.userId": userId,
+    endedAt: { $exists: true },
+    aborted: { $ne: true }
+  };
+  if (query.opponentId) {
+    baseFilter["players.userId"] = { $all: [userId, toObjectId(query.opponentId, "شناسه حریف")] };
+  }
+  if (query.from || query.to) {
+    baseFilter.endedAt = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lte: query.to })
+    };
+  }
+
+  const conditions: Record<string, unknown>[] = [baseFilter];
+  if (query.result) conditions.push(resultFilter(userId, query.result));
+  if (query.cursor) {
+    const { endedAt, id } = decodeCursor(query.cursor);
+    conditions.push({
+      $or: [
+        { endedAt: { $lt: endedAt } },
+        { endedAt, _id: { $lt: id } }
+      ]
+    });
+  }
+
+  const games = await Game.find({ $and: conditions })
+    .sort({ endedAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean<any[]>();
+
+  const page = games.slice(0, limit);
+  const last = page[page.length - 1];
+
+  const history: MatchHistoryPage = {
+    matches: page.map(game => toHistoryItem(game, userId)),
+    nextCursor: games.length > limit && last ? encodeCursor(last.endedAt, last._id) : null
+  };
+
+  if (query.opponentId) {
+    const [wins, losses, draws] = await Promise.all(
+      MATCH_RESULTS.map(result =>
+        Game.countDocuments({ $and: [baseFilter, resultFilter(userId, result)] })
+      )
+    );
+    history.headToHead = { wins, losses, draws };
+  }
+
+  return history;
+}
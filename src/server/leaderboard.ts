@@ -0,0 +1,168 @@
+import mongoose from "mongoose";
+import Game from "../models/Game";
+import { GameError } from "./protocol";
+
+export type LeaderboardPeriod = "all" | "weekly" | "monthly";
+export type LeaderboardMetric = "wins" | "winRate" | "totalScore";
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["all", "weekly", "monthly"];
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ["wins", "winRate", "totalScore"];
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  games: number;
+  wins: number;
+  winRate: number;
+  totalScore: number;
+}
+
+export interface LeaderboardQuery {
+  period?: LeaderboardPeriod;
+  metric?: LeaderboardMetric;
+  page?: number;
+  limit?: number;
+  userId?: string;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  page: number;
+  limit: number;
+  total: number;
+  entries: LeaderboardEntry[];
+  myRank?: LeaderboardEntry | null;
+}
+
+// Players need this many games in the period before they are ranked by win rate
+const MIN_GAMES_FOR_WIN_RATE = 10;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+function periodStart(period: LeaderboardPeriod): Date | null {
+  if (period === "weekly") return new Date(Date.now() - 7 * DAY);
+  if (period === "monthly") return new Date(Date.now() - 30 * DAY);
+  return null;
+}
+
+// Per-player totals over finished, rated games in the period
+function statsPipeline(period: LeaderboardPeriod, metric: LeaderboardMetric): mongoose.PipelineStage[] {
+  const since = periodStart(period);
+
+  return [
+    {
+      $match: {
+        endedAt: since ? { $gte: since } : { $exists: true },
+        vsBot: { $ne: true },
+        aborted: { $ne: true }
+      }
+    },
+    // Oldest first, so $last picks the name each player used most recently
+    { $sort: { endedAt: 1 } },
+    { $unwind: "$players" },
+    { $match: { "players.userId": { $ne: null } } },
+    {
+      $group: {
+        _id: "$players.userId",
+        username: { $last: "$players.username" },
+        games: { $sum: 1 },
+        wins: { $sum: { $cond: [{ $eq: ["$gameState.winner", "$players.playerNumber"] }, 1, 0] } },
+        totalScore: {
+          $sum: {
+            $cond: [{ $eq: ["$players.playerNumber", 1] }, "$gameState.scores.player1", "$gameState.scores.player2"]
+          }
+        }
+      }
+    },
+    { $addFields: { winRate: { $divide: ["$wins", "$games"] } } },
+    ...(metric === "winRate" ? [{ $match: { games: { $gte: MIN_GAMES_FOR_WIN_RATE } } }] : [])
+  ];
+}
+
+// Ties on the metric go to whoever played more games, then by id, so every
+// player has one position both on the pages and in myRank
+function rankingSort(metric: LeaderboardMetric): mongoose.PipelineStage.Sort {
+  return { $sort: { [metric]: -1, games: -1, _id: 1 } };
+}
+
+// Matches the players rankingSort puts ahead of `entry`
+function aheadOf(entry: any, metric: LeaderboardMetric): mongoose.PipelineStage.Match {
+  return {
+    $match: {
+      $or: [
+        { [metric]: { $gt: entry[metric] } },
+        { [metric]: entry[metric], games: { $gt: entry.games } },
+        { [metric]: entry[metric], games: entry.games, _id: { $lt: entry._id } }
+      ]
+    }
+  };
+}
+
+function toEntry(doc: any, rank: number): LeaderboardEntry {
+  return {
+    rank,
+    userId: doc._id.toString(),
+    username: doc.username,
+    games: doc.games,
+    wins: doc.wins,
+    winRate: Math.round(doc.winRate * 1000) / 1000,
+    totalScore: doc.totalScore
+  };
+}
+
+/**
+ * Ranks players by the chosen metric, built from saved games so weekly and
+ * monthly boards only count games played in that window.
+ */
+export async function getLeaderboard(query: LeaderboardQuery): Promise<Leaderboard> {
+  const period = query.period ?? "all";
+  const metric = query.metric ?? "wins";
+  if (!LEADERBOARD_PERIODS.includes(period)) throw new GameError("invalid_payload", "بازه زمانی نامعتبر است");
+  if (!LEADERBOARD_METRICS.includes(metric)) throw new GameError("invalid_payload", "معیار رتبه‌بندی نامعتبر است");
+
+  const page = Math.max(query.page ?? 1, 1);
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const pipeline = statsPipeline(period, metric);
+
+  const [result] = await Game.aggregate([
+    ...pipeline,
+    rankingSort(metric),
+    {
+      $facet: {
+        entries: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+        total: [{ $count: "count" }]
+      }
+    }
+  ]);
+
+  const leaderboard: Leaderboard = {
+    period,
+    metric,
+    page,
+    limit,
+    total: result?.total[0]?.count ?? 0,
+    entries: (result?.entries ?? []).map((doc: any, index: number) => toEntry(doc, (page - 1) * limit + index + 1))
+  };
+
+  if (query.userId) {
+    if (!mongoose.Types.ObjectId.isValid(query.userId)) throw new GameError("invalid_payload", "شناسه کاربر نامعتبر است");
+    const userId = new mongoose.Types.ObjectId(query.userId);
+
+    const [mine] = await Game.aggregate([...pipeline, { $match: { _id: userId } }]);
+    if (mine) {
+      const [ahead] = await Game.aggregate([
+        ...pipeline,
+        aheadOf(mine, metric),
+        { $count: "count" }
+      ]);
+      leaderboard.myRank = toEntry(mine, (ahead?.count ?? 0) + 1);
+    } else {
+      leaderboard.myRank = null;
+    }
+  }
+
+  return leaderboard;
+}
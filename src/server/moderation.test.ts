@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CHAT_RATE_LIMIT, CHAT_RATE_WINDOW, allowMessage, isAbusive } from "./moderation";
+
+describe("isAbusive", () => {
+  it("flags banned words whatever their case", () => {
+    assert.equal(isAbusive("you BASTARD"), true);
+    assert.equal(isAbusive("shit!"), true);
+    assert.equal(isAbusive("خفه شو دیگه"), true);
+  });
+
+  it("leaves English words that merely contain a banned one alone", () => {
+    assert.equal(isAbusive("shitake on the menu"), false);
+  });
+
+  it("sees through Arabic letter variants and zero-width joiners", () => {
+    assert.equal(isAbusive("عوضي"), true);
+    assert.equal(isAbusive("گم‌شو"), true);
+  });
+});
+
+describe("allowMessage", () => {
+  it("allows a burst up to the limit and then again once the window has passed", () => {
+    const history: number[] = [];
+    for (let count = 0; count < CHAT_RATE_LIMIT; count++) {
+      assert.equal(allowMessage(history, 1000), true);
+    }
+    assert.equal(allowMessage(history, 1000), false);
+    assert.equal(allowMessage(history, 1000 + CHAT_RATE_WINDOW), true);
+  });
+});
@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+
+// Chat moderation helpers.
+
+export const MAX_MESSAGE_LENGTH = 200;
+export const CHAT_RATE_LIMIT = 5; // messages
+export const CHAT_RATE_WINDOW = 10 * 1000; // 10 seconds in milliseconds
+
+const DEFAULT_BANNED_WORDS = [
+  // English
+  "fuck", "shit", "bitch", "asshole", "bastard",
+  // Persian
+  "احمق", "بیشعور", "کثافت", "عوضی", "خفه شو", "گمشو", "الاغ", "کصافت"
+];
+
+// Folds Arabic letter variants, zero-width joiners, diacritics and tatweel so
+// spelling tricks do not slip past the word list.
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[يى]/g, "ی")
+    .replace(/ك/g, "ک")
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[\u200C-\u200F]/g, "")
+    .replace(/\s+/g, " ");
+}
+
+// Extra words come from BANNED_WORDS (comma-separated) and BANNED_WORDS_FILE (one per line)
+function loadBannedWords(): string[] {
+  const words = [...DEFAULT_BANNED_WORDS, ...(process.env.BANNED_WORDS?.split(",") ?? [])];
+
+  if (process.env.BANNED_WORDS_FILE) {
+    try {
+      words.push(...readFileSync(process.env.BANNED_WORDS_FILE, "utf8").split(/\r?\n/));
+    } catch (error) {
+      console.error("Error loading banned words file:", error);
+    }
+  }
+
+  return Array.from(new Set(words.map(word => normalize(word.trim())).filter(Boolean)));
+}
+
+// English words only count on their own, so longer words that happen to
+// contain one aren't flagged. Persian ones still match inside a word, as they
+// take suffixes without a space.
+function toPattern(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return /^[a-z0-9 ]+$/.test(word) ? new RegExp(`\\b${escaped}\\b`) : new RegExp(escaped);
+}
+
+const bannedPatterns = loadBannedWords().map(toPattern);
+
+export function isAbusive(message: string): boolean {
+  const normalized = normalize(message);
+  return bannedPatterns.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Records a message at `now` and returns false if the sender is over the limit.
+ */
+export function allowMessage(history: number[], now: number = Date.now()): boolean {
+  while (history.length > 0 && now - history[0] >= CHAT_RATE_WINDOW) history.shift();
+  if (history.length >= CHAT_RATE_LIMIT) return false;
+  history.push(now);
+  return true;
+}
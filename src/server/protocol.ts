@@ -0,0 +1,421 @@
+// The socket.io contract between the game server and its clients: every
+// event in both directions with its payload and acknowledgement, the error
+// codes failed requests carry, and the checks incoming payloads go through
+// before any handler runs. Dates are sent as Date objects and arrive as ISO
+// strings on the other side.
+import type { Card, GameState, Line, PlayerNumber } from "./types";
+import type { RoomSettings } from "./settings";
+import type { BotLevel } from "./bot";
+import type { Reaction } from "./reactions";
+import type { GameReplay } from "./replay";
+import type { MatchHistoryPage, MatchResult } from "./history";
+import type { Leaderboard, LeaderboardMetric, LeaderboardPeriod } from "./leaderboard";
+import type { ReferralStats } from "./referral";
+import type { GameSearchQuery, searchGames } from "./admin";
+import type { CreateTournamentOptions, TournamentData } from "./tournament";
+
+// Bumped whenever an event or payload changes incompatibly. Clients send the
+// version they were built against in the handshake as `auth.protocolVersion`.
+export const PROTOCOL_VERSION = 1;
+// Oldest client version the server still talks to
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type ErrorCode =
+  | "invalid_payload" // malformed or out of range input
+  | "update_required" // the client speaks an older protocol
+  | "unauthenticated" // needs a signed-in account
+  | "forbidden" // not allowed for this account, e.g. admin only or banned
+  | "not_found" // the room, game, invite or user doesn't exist (anymore)
+  | "not_in_room" // the socket has no seat in the room
+  | "busy" // already queued or playing
+  | "invalid_state" // not possible at this point of the game
+  | "invalid_move"
+  | "rate_limited"
+  | "unavailable" // the node running the room didn't answer
+  | "request_failed"; // anything else, see the message
+
+/**
+ * An error with a code the client can act on. Its message is the Persian
+ * text shown to the player.
+ */
+export class GameError extends Error {
+  code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "GameError";
+    this.code = code;
+  }
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: ErrorCode;
+  message: string;
+}
+
+export type SuccessResponse<T = {}> = { success: true; message?: string } & T;
+
+export type Ack<T = {}> = (response: SuccessResponse<T> | ErrorResponse) => void;
+
+export function errorResponse(error: unknown): ErrorResponse {
+  if (error instanceof GameError) return { success: false, error: error.code, message: error.message };
+  return {
+    success: false,
+    error: "request_failed",
+    message: error instanceof Error ? error.message : "خطایی رخ داد"
+  };
+}
+
+// Payloads
+
+export type EmptyPayload = Record<string, never>;
+
+export interface RoomPayload {
+  roomId: string;
+}
+
+export interface TournamentPayload {
+  tournamentId: string;
+}
+
+export interface PlayRequest {
+  username: string;
+  settings?: Partial<RoomSettings>;
+}
+
+export type MoveInput = Pick<Line, "start" | "end">;
+
+export interface MatchHistoryRequest {
+  userId?: string; // defaults to the signed-in user
+  cursor?: string;
+  limit?: number;
+  result?: MatchResult;
+  from?: string;
+  to?: string;
+  opponentId?: string;
+}
+
+export interface LeaderboardRequest {
+  period?: LeaderboardPeriod;
+  metric?: LeaderboardMetric;
+  page?: number;
+  limit?: number;
+}
+
+export interface RestrictUserRequest {
+  userId: string;
+  minutes: number; // 0 lifts the restriction
+  reason?: string;
+}
+
+// Responses
+
+export interface LiveGameSummary {
+  roomId: string;
+  playerNames: { player1: string; player2: string };
+  scores: { player1: number; player2: number };
+  settings: RoomSettings;
+  spectatorCount: number;
+  startedAt: Date;
+}
+
+export interface ChatHistoryItem {
+  sender: string;
+  playerNumber?: PlayerNumber;
+  message: string;
+  timestamp: Date;
+}
+
+export interface UserStatistics {
+  totalGames: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  totalScore: number;
+  rating: number;
+  yellowCards: number;
+  redCards: number;
+  resignations: number;
+  timeLosses: number;
+  abandonments: number;
+  agreedDraws: number;
+}
+
+export interface RoomSummary {
+  roomId: string;
+  node: string;
+  status: GameState["gameStatus"];
+  players: {
+    username: string;
+    userId?: string;
+    playerNumber: PlayerNumber | null;
+    connected: boolean;
+    isBot: boolean;
+  }[];
+  scores: { player1: number; player2: number };
+  spectatorCount: number;
+  startedAt: Date;
+  lastActivityTime: Date;
+}
+
+export interface RoomDetails extends RoomSummary {
+  gameState: GameState;
+  cards: Card[];
+}
+
+export type GameSearchResult = Awaited<ReturnType<typeof searchGames>>;
+
+export interface ClientToServerEvents {
+  join_queue: (payload: PlayRequest, callback: Ack<{ sessionToken: string; rating: number; estimatedWait: number | null }>) => void;
+  create_private_room: (payload: PlayRequest, callback: Ack<{ code?: string; roomId: string; sessionToken: string; expiresIn: number }>) => void;
+  join_private_room: (payload: { code: string; username: string }, callback: Ack<{ roomId: string; sessionToken: string }>) => void;
+  cancel_private_room: (payload: { code: string }, callback: Ack) => void;
+  play_vs_bot: (payload: PlayRequest & { level?: BotLevel }, callback: Ack<{ sessionToken: string }>) => void;
+  rejoin_room: (
+    payload: { sessionToken?: string },
+    callback: Ack<{ roomId: string; playerNumber: PlayerNumber | null; sessionToken: string; gameState: GameState }>
+  ) => void;
+  leave_room: (payload: RoomPayload, callback: Ack) => void;
+
+  make_move: (payload: RoomPayload & { move: MoveInput }, callback: Ack) => void;
+  request_pause: (payload: RoomPayload, callback: Ack) => void;
+  respond_pause: (payload: RoomPayload & { accept: boolean }, callback: Ack) => void;
+  resume_game: (payload: RoomPayload, callback: Ack) => void;
+  resign: (payload: RoomPayload, callback: Ack) => void;
+  offer_draw: (payload: RoomPayload, callback: Ack) => void;
+  respond_draw: (payload: RoomPayload & { accept: boolean }, callback: Ack) => void;
+
+  list_live_games: (payload: EmptyPayload, callback: Ack<{ games: LiveGameSummary[] }>) => void;
+  spectate_room: (payload: RoomPayload, callback: Ack<{ roomId: string; gameState: GameState }>) => void;
+  stop_spectating: (payload: RoomPayload, callback: Ack) => void;
+
+  send_message: (payload: RoomPayload & { message: string }, callback: Ack) => void;
+  get_chat_history: (payload: RoomPayload, callback: Ack<{ chat: ChatHistoryItem[] }>) => void;
+  mute_opponent: (payload: RoomPayload & { muted: boolean }, callback: Ack) => void;
+  get_reaction_catalog: (payload: EmptyPayload, callback: Ack<{ reactions: Reaction[] }>) => void;
+  send_reaction: (payload: RoomPayload & { reactionId: string }, callback: Ack) => void;
+  toggle_reactions: (payload: RoomPayload & { enabled: boolean }, callback: Ack) => void;
+
+  request_rematch: (payload: RoomPayload & { swapFirst?: boolean }, callback: Ack) => void;
+  accept_rematch: (payload: RoomPayload, callback: Ack) => void;
+  decline_rematch: (payload: RoomPayload, callback: Ack) => void;
+
+  get_game_replay: (payload: RoomPayload & { step?: number }, callback: Ack<{ replay: GameReplay }>) => void;
+  get_match_history: (payload: MatchHistoryRequest, callback: Ack<{ history: MatchHistoryPage }>) => void;
+  get_leaderboard: (payload: LeaderboardRequest, callback: Ack<{ leaderboard: Leaderboard }>) => void;
+  get_referral_stats: (payload: EmptyPayload, callback: Ack<{ referrals: ReferralStats }>) => void;
+  get_user_stats: (payload: EmptyPayload, callback: Ack<{ stats: UserStatistics; username: string }>) => void;
+
+  list_tournaments: (payload: EmptyPayload, callback: Ack<{ tournaments: TournamentData[] }>) => void;
+  watch_tournament: (payload: TournamentPayload, callback: Ack<{ tournament: TournamentData }>) => void;
+  unwatch_tournament: (payload: TournamentPayload, callback: Ack) => void;
+  register_tournament: (payload: TournamentPayload, callback: Ack<{ tournament: TournamentData }>) => void;
+  unregister_tournament: (payload: TournamentPayload, callback: Ack<{ tournament: TournamentData }>) => void;
+  tournament_ready: (payload: TournamentPayload, callback: Ack) => void;
+
+  admin_create_tournament: (payload: CreateTournamentOptions, callback: Ack<{ tournament: TournamentData }>) => void;
+  admin_start_tournament: (payload: TournamentPayload, callback: Ack<{ tournament: TournamentData }>) => void;
+  admin_cancel_tournament: (payload: TournamentPayload, callback: Ack<{ tournament: TournamentData }>) => void;
+  admin_list_rooms: (payload: EmptyPayload, callback: Ack<{ rooms: RoomSummary[] }>) => void;
+  admin_get_room: (payload: RoomPayload, callback: Ack<{ room: RoomDetails }>) => void;
+  admin_end_room: (payload: RoomPayload & { winner?: PlayerNumber | null; reason?: string }, callback: Ack) => void;
+  admin_ban_user: (payload: RestrictUserRequest, callback: Ack<{ until: Date | null }>) => void;
+  admin_mute_user: (payload: RestrictUserRequest, callback: Ack<{ until: Date | null }>) => void;
+  admin_reset_stats: (payload: { userId: string }, callback: Ack) => void;
+  admin_search_games: (payload: GameSearchQuery, callback: Ack<{ search: GameSearchResult }>) => void;
+}
+
+export type ClientEvent = keyof ClientToServerEvents;
+
+export interface MessagePayload {
+  message: string;
+}
+
+export interface GameStatePayload {
+  gameState: GameState;
+}
+
+export interface ServerToClientEvents {
+  start_game: (payload: GameStatePayload & {
+    playerNames: GameState["playerNames"];
+    roomId: string;
+    playerNumber: PlayerNumber | null;
+  }) => void;
+  game_update: (payload: GameStatePayload) => void;
+  // Clients count down to turnDeadline themselves; serverTime lets them correct for clock skew
+  timer_update: (payload: {
+    turnDeadline: number | null;
+    timeLeft: number;
+    turnTime: number;
+    clocks: GameState["clocks"];
+    serverTime: number;
+  }) => void;
+  random_move_played: (payload: MessagePayload & { move: Line }) => void;
+  card_issued: (payload: Card & MessagePayload & { warnings: GameState["warnings"] }) => void;
+  time_expired: (payload: MessagePayload & { playerNumber: PlayerNumber }) => void;
+
+  game_force_ended: (payload: MessagePayload & GameStatePayload) => void;
+  game_aborted: (payload: MessagePayload & GameStatePayload) => void;
+  player_left: (payload: MessagePayload & GameStatePayload) => void;
+  player_resigned: (payload: MessagePayload & GameStatePayload & { playerNumber: PlayerNumber }) => void;
+  draw_offered: (payload: MessagePayload & { playerNumber: PlayerNumber }) => void;
+  draw_declined: (payload: MessagePayload) => void;
+  draw_agreed: (payload: MessagePayload & GameStatePayload) => void;
+
+  pause_requested: (payload: MessagePayload & { playerNumber: PlayerNumber; expiresAt: number | null }) => void;
+  pause_declined: (payload: MessagePayload) => void;
+  pause_request_expired: (payload: MessagePayload) => void;
+  game_paused: (payload: GameStatePayload & { pausedBy: PlayerNumber; resumeAt: number | null }) => void;
+  game_resumed: (payload: GameStatePayload) => void;
+
+  opponent_disconnected: (payload: MessagePayload & { playerNumber: PlayerNumber | null; gracePeriod: number }) => void;
+  player_reconnected: (payload: MessagePayload & GameStatePayload & { playerNumber: PlayerNumber | null }) => void;
+  spectator_update: (payload: { spectatorCount: number }) => void;
+  private_room_expired: (payload: MessagePayload & { code?: string }) => void;
+
+  receive_message: (payload: { sender: string; playerNumber: PlayerNumber | null; message: string; timestamp: Date }) => void;
+  receive_reaction: (payload: {
+    playerNumber: PlayerNumber | null;
+    reactionId: string;
+    timestamp: Date;
+    sender: string;
+    reaction: Reaction;
+  }) => void;
+
+  rematch_requested: (payload: { from: PlayerNumber; username: string; expiresIn: number }) => void;
+  rematch_expired: (payload: MessagePayload) => void;
+  rematch_declined: (payload: MessagePayload) => void;
+  rematch_cancelled: (payload: MessagePayload) => void;
+
+  tournament_update: (payload: { tournament: TournamentData }) => void;
+  tournament_match_ready: (payload: {
+    tournamentId: string;
+    matchId: string;
+    players: { userId: string | null; username: string }[];
+    game: number;
+    readyDeadline?: Date;
+  }) => void;
+  tournament_finished: (payload: { tournamentId: string; winner: { userId: string; username: string } }) => void;
+}
+
+export type TournamentEvents = Pick<ServerToClientEvents, "tournament_update" | "tournament_match_ready" | "tournament_finished">;
+
+// Runtime checks. They only cover the shape of a payload; ranges and
+// meaning are still checked where the values are used.
+
+type FieldType = "string" | "number" | "boolean" | "object";
+type FieldSpec = FieldType | `${FieldType}?` | ((value: unknown) => boolean);
+type PayloadSpec = Record<string, FieldSpec>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isPoint = (value: unknown) => isObject(value) && typeof value.row === "number" && typeof value.col === "number";
+const isMove = (value: unknown) => isObject(value) && isPoint(value.start) && isPoint(value.end);
+const isOptionalWinner = (value: unknown) => value === undefined || value === null || value === 1 || value === 2;
+
+const ROOM: PayloadSpec = { roomId: "string" };
+const TOURNAMENT: PayloadSpec = { tournamentId: "string" };
+const PLAY: PayloadSpec = { username: "string", settings: "object?" };
+const NONE: PayloadSpec = {};
+const RESTRICT_USER: PayloadSpec = { userId: "string", minutes: "number", reason: "string?" };
+
+const PAYLOAD_SPECS: Record<ClientEvent, PayloadSpec> = {
+  join_queue: PLAY,
+  create_private_room: PLAY,
+  join_private_room: { code: "string", username: "string" },
+  cancel_private_room: { code: "string" },
+  play_vs_bot: { ...PLAY, level: "string?" },
+  rejoin_room: { sessionToken: "string?" },
+  leave_room: ROOM,
+
+  make_move: { ...ROOM, move: isMove },
+  request_pause: ROOM,
+  respond_pause: { ...ROOM, accept: "boolean" },
+  resume_game: ROOM,
+  resign: ROOM,
+  offer_draw: ROOM,
+  respond_draw: { ...ROOM, accept: "boolean" },
+
+  list_live_games: NONE,
+  spectate_room: ROOM,
+  stop_spectating: ROOM,
+
+  send_message: { ...ROOM, message: "string" },
+  get_chat_history: ROOM,
+  mute_opponent: { ...ROOM, muted: "boolean" },
+  get_reaction_catalog: NONE,
+  send_reaction: { ...ROOM, reactionId: "string" },
+  toggle_reactions: { ...ROOM, enabled: "boolean" },
+
+  request_rematch: { ...ROOM, swapFirst: "boolean?" },
+  accept_rematch: ROOM,
+  decline_rematch: ROOM,
+
+  get_game_replay: { ...ROOM, step: "number?" },
+  get_match_history: {
+    userId: "string?", cursor: "string?", limit: "number?", result: "string?",
+    from: "string?", to: "string?", opponentId: "string?"
+  },
+  get_leaderboard: { period: "string?", metric: "string?", page: "number?", limit: "number?" },
+  get_referral_stats: NONE,
+  get_user_stats: NONE,
+
+  list_tournaments: NONE,
+  watch_tournament: TOURNAMENT,
+  unwatch_tournament: TOURNAMENT,
+  register_tournament: TOURNAMENT,
+  unregister_tournament: TOURNAMENT,
+  tournament_ready: TOURNAMENT,
+
+  admin_create_tournament: { name: "string", maxPlayers: "number", bestOf: "number?", settings: "object?" },
+  admin_start_tournament: TOURNAMENT,
+  admin_cancel_tournament: TOURNAMENT,
+  admin_list_rooms: NONE,
+  admin_get_room: ROOM,
+  admin_end_room: { ...ROOM, winner: isOptionalWinner, reason: "string?" },
+  admin_ban_user: RESTRICT_USER,
+  admin_mute_user: RESTRICT_USER,
+  admin_reset_stats: { userId: "string" },
+  admin_search_games: {
+    userId: "string?", roomId: "string?", username: "string?",
+    from: "string?", to: "string?", page: "number?", limit: "number?"
+  }
+};
+
+function matches(spec: FieldSpec, value: unknown): boolean {
+  if (typeof spec === "function") return spec(value);
+
+  const optional = spec.endsWith("?");
+  if (value === undefined) return optional;
+  const type = (optional ? spec.slice(0, -1) : spec) as FieldType;
+  if (type === "object") return isObject(value);
+  if (type === "number") return typeof value === "number" && Number.isFinite(value);
+  return typeof value === type;
+}
+
+/**
+ * Returns the name of the first field of `payload` that doesn't fit `event`,
+ * "payload" if it isn't an object at all, or null if it is fine. Events
+ * outside the contract are left alone.
+ */
+export function findInvalidField(event: string, payload: unknown): string | null {
+  if (!(event in PAYLOAD_SPECS)) return null;
+  const spec = PAYLOAD_SPECS[event as ClientEvent];
+
+  // Events without fields may be sent without a payload
+  if (payload === undefined && Object.keys(spec).length === 0) return null;
+  if (!isObject(payload)) return "payload";
+
+  for (const [field, fieldSpec] of Object.entries(spec)) {
+    if (!matches(fieldSpec, payload[field])) return field;
+  }
+  return null;
+}
+
+export function isSupportedVersion(version: unknown): boolean {
+  return typeof version === "number" && Number.isInteger(version) &&
+    version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+}
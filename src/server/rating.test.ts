@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { allowedRatingGap, calculateRatings, estimateWaitForGap } from "./rating";
+
+describe("calculateRatings", () => {
+  it("moves the same number of points from the loser to the winner", () => {
+    const ratings = calculateRatings(1200, 1200, 1);
+    assert.deepEqual(ratings, { player1: 1216, player2: 1184 });
+  });
+
+  it("moves points towards the lower rated player on a draw", () => {
+    const ratings = calculateRatings(1000, 1400, null);
+    assert.ok(ratings.player1 > 1000);
+    assert.equal(ratings.player1 + ratings.player2, 2400);
+  });
+});
+
+describe("matchmaking window", () => {
+  it("widens with the wait up to its cap", () => {
+    assert.equal(allowedRatingGap(0), 100);
+    assert.equal(allowedRatingGap(10 * 1000), 200);
+    assert.equal(allowedRatingGap(10 * 60 * 1000), 800);
+  });
+
+  it("estimates the wait until the window reaches a gap", () => {
+    assert.equal(estimateWaitForGap(50), 0);
+    assert.equal(estimateWaitForGap(200), 10);
+    assert.equal(estimateWaitForGap(800), 70);
+    assert.equal(allowedRatingGap(estimateWaitForGap(800)! * 1000), 800);
+  });
+
+  it("has no estimate for a gap the window never reaches", () => {
+    assert.equal(estimateWaitForGap(801), null);
+  });
+});
@@ -0,0 +1,45 @@
+// Elo rating helpers used by matchmaking and post-game statistics.
+
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32;
+
+// Allowed rating gap between two queued players, widening with wait time
+const BASE_RATING_GAP = 100;
+const RATING_GAP_STEP = 50;
+const RATING_GAP_STEP_INTERVAL = 5 * 1000; // 5 seconds in milliseconds
+const MAX_RATING_GAP = 800;
+
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Returns both players' new ratings. `winner` is 1, 2 or null for a draw.
+ */
+export function calculateRatings(rating1: number, rating2: number, winner: 1 | 2 | null): { player1: number; player2: number } {
+  const score1 = winner === 1 ? 1 : winner === 2 ? 0 : 0.5;
+  const expected1 = expectedScore(rating1, rating2);
+  const delta = Math.round(K_FACTOR * (score1 - expected1));
+
+  return {
+    player1: rating1 + delta,
+    player2: rating2 - delta
+  };
+}
+
+export function allowedRatingGap(waitedMs: number): number {
+  const steps = Math.floor(waitedMs / RATING_GAP_STEP_INTERVAL);
+  return Math.min(BASE_RATING_GAP + steps * RATING_GAP_STEP, MAX_RATING_GAP);
+}
+
+/**
+ * Seconds until a player would accept an opponent `gap` points away,
+ * assuming nobody closer joins in the meantime. Null when the gap is wider
+ * than the window ever grows, since such players are never paired.
+ */
+export function estimateWaitForGap(gap: number): number | null {
+  if (gap > MAX_RATING_GAP) return null;
+  if (gap <= BASE_RATING_GAP) return 0;
+  const steps = Math.ceil((gap - BASE_RATING_GAP) / RATING_GAP_STEP);
+  return (steps * RATING_GAP_STEP_INTERVAL) / 1000;
+}
@@ -0,0 +1,28 @@
+// Server-defined quick-chat catalog. Clients send only an id from this list.
+
+export interface Reaction {
+  id: string;
+  type: "emote" | "phrase";
+  label: string;
+}
+
+export const REACTION_COOLDOWN = 3 * 1000; // 3 seconds in milliseconds
+
+export const REACTIONS: Reaction[] = [
+  { id: "thumbs_up", type: "emote", label: "👍" },
+  { id: "clap", type: "emote", label: "👏" },
+  { id: "laugh", type: "emote", label: "😂" },
+  { id: "wow", type: "emote", label: "😮" },
+  { id: "thinking", type: "emote", label: "🤔" },
+  { id: "sad", type: "emote", label: "😢" },
+  { id: "hello", type: "phrase", label: "سلام!" },
+  { id: "good_luck", type: "phrase", label: "موفق باشی" },
+  { id: "good_move", type: "phrase", label: "حرکت خوبی بود" },
+  { id: "well_played", type: "phrase", label: "خوب بازی کردی" },
+  { id: "oops", type: "phrase", label: "اوه، اشتباه شد!" },
+  { id: "thanks", type: "phrase", label: "ممنون" }
+];
+
+export function findReaction(id: string): Reaction | undefined {
+  return REACTIONS.find(reaction => reaction.id === id);
+}
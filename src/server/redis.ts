@@ -0,0 +1,231 @@
+// The few Redis commands the game store and the cluster adapter need. In
+// production this is backed by ioredis; LocalRedis keeps everything in the
+// current process so several servers can share it without a Redis instance.
+import Redis from "ioredis";
+
+export interface SetOptions {
+  ttl?: number; // milliseconds
+  onlyIfAbsent?: boolean;
+}
+
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: SetOptions): Promise<boolean>;
+  del(key: string): Promise<void>;
+  hget(hash: string, field: string): Promise<string | null>;
+  hset(hash: string, field: string, value: string): Promise<void>;
+  hdel(hash: string, field: string): Promise<boolean>;
+  hvals(hash: string): Promise<string[]>;
+  // Lease helpers: they only act while `key` still holds `value`
+  expireIfEquals(key: string, value: string, ttl: number): Promise<boolean>;
+  deleteIfEquals(key: string, value: string): Promise<boolean>;
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+  quit(): Promise<void>;
+}
+
+const EXPIRE_IF_EQUALS = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const DELETE_IF_EQUALS = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+class IORedisClient implements RedisClient {
+  client: Redis;
+  subscriber: Redis;
+  listeners: Map<string, Set<(message: string) => void>>;
+
+  constructor(url: string) {
+    this.client = new Redis(url);
+    // A subscribed connection can't run other commands, so pub/sub gets its own
+    this.subscriber = this.client.duplicate();
+    this.listeners = new Map();
+
+    this.subscriber.on("message", (channel: string, message: string) => {
+      this.listeners.get(channel)?.forEach(listener => listener(message));
+    });
+  }
+
+  get(key: string) {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}) {
+    let result: string | null;
+    if (options.ttl && options.onlyIfAbsent) {
+      result = await this.client.set(key, value, "PX", options.ttl, "NX");
+    } else if (options.ttl) {
+      result = await this.client.set(key, value, "PX", options.ttl);
+    } else if (options.onlyIfAbsent) {
+      result = await this.client.set(key, value, "NX");
+    } else {
+      result = await this.client.set(key, value);
+    }
+    return result === "OK";
+  }
+
+  async del(key: string) {
+    await this.client.del(key);
+  }
+
+  hget(hash: string, field: string) {
+    return this.client.hget(hash, field);
+  }
+
+  async hset(hash: string, field: string, value: string) {
+    await this.client.hset(hash, field, value);
+  }
+
+  async hdel(hash: string, field: string) {
+    return (await this.client.hdel(hash, field)) > 0;
+  }
+
+  hvals(hash: string) {
+    return this.client.hvals(hash);
+  }
+
+  async expireIfEquals(key: string, value: string, ttl: number) {
+    return (await this.client.eval(EXPIRE_IF_EQUALS, 1, key, value, ttl)) === 1;
+  }
+
+  async deleteIfEquals(key: string, value: string) {
+    return (await this.client.eval(DELETE_IF_EQUALS, 1, key, value)) === 1;
+  }
+
+  async publish(channel: string, message: string) {
+    await this.client.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    const listeners = this.listeners.get(channel) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(channel, listeners);
+    await this.subscriber.subscribe(channel);
+  }
+
+  async quit() {
+    await Promise.all([this.client.quit(), this.subscriber.quit()]);
+  }
+}
+
+interface StoredString {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Data shared by every LocalRedis client created on it, playing the part of
+ * the Redis server.
+ */
+export class LocalRedisServer {
+  strings = new Map<string, StoredString>();
+  hashes = new Map<string, Map<string, string>>();
+  channels = new Map<string, Set<(message: string) => void>>();
+
+  readString(key: string): string | null {
+    const entry = this.strings.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.strings.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+const defaultLocalServer = new LocalRedisServer();
+
+/**
+ * In-process stand-in for Redis. Messages are delivered asynchronously, as
+ * they would be over the network.
+ */
+export class LocalRedis implements RedisClient {
+  server: LocalRedisServer;
+  subscriptions: [string, (message: string) => void][];
+
+  constructor(server: LocalRedisServer = defaultLocalServer) {
+    this.server = server;
+    this.subscriptions = [];
+  }
+
+  async get(key: string) {
+    return this.server.readString(key);
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}) {
+    if (options.onlyIfAbsent && this.server.readString(key) !== null) return false;
+    this.server.strings.set(key, {
+      value,
+      expiresAt: options.ttl ? Date.now() + options.ttl : undefined
+    });
+    return true;
+  }
+
+  async del(key: string) {
+    this.server.strings.delete(key);
+  }
+
+  async hget(hash: string, field: string) {
+    return this.server.hashes.get(hash)?.get(field) ?? null;
+  }
+
+  async hset(hash: string, field: string, value: string) {
+    const entries = this.server.hashes.get(hash) ?? new Map<string, string>();
+    entries.set(field, value);
+    this.server.hashes.set(hash, entries);
+  }
+
+  async hdel(hash: string, field: string) {
+    return this.server.hashes.get(hash)?.delete(field) ?? false;
+  }
+
+  async hvals(hash: string) {
+    return Array.from(this.server.hashes.get(hash)?.values() ?? []);
+  }
+
+  async expireIfEquals(key: string, value: string, ttl: number) {
+    if (this.server.readString(key) !== value) return false;
+    this.server.strings.set(key, { value, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async deleteIfEquals(key: string, value: string) {
+    if (this.server.readString(key) !== value) return false;
+    this.server.strings.delete(key);
+    return true;
+  }
+
+  async publish(channel: string, message: string) {
+    for (const listener of this.server.channels.get(channel) ?? []) {
+      setImmediate(() => listener(message));
+    }
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    const listeners = this.server.channels.get(channel) ?? new Set();
+    listeners.add(listener);
+    this.server.channels.set(channel, listeners);
+    this.subscriptions.push([channel, listener]);
+  }
+
+  async quit() {
+    for (const [channel, listener] of this.subscriptions) {
+      this.server.channels.get(channel)?.delete(listener);
+    }
+    this.subscriptions = [];
+  }
+}
+
+/**
+ * Connects to the Redis at `url`, or to the in-process stand-in when `url`
+ * is "local".
+ */
+export function connectRedis(url: string): RedisClient {
+  return url === "local" ? new LocalRedis() : new IORedisClient(url);
+}
@@ -0,0 +1,128 @@
+import mongoose from "mongoose";
+import { randomInt } from "node:crypto";
+import User from "../models/User";
+import { GameError } from "./protocol";
+
+export interface ReferralRules {
+  requiredGames: number; // games the invitee must finish before the reward is paid
+  referrerCredits: number;
+  inviteeCredits: number;
+}
+
+export const REFERRAL_RULES: ReferralRules = {
+  requiredGames: parseInt(process.env.REFERRAL_REQUIRED_GAMES || "5", 10),
+  referrerCredits: parseInt(process.env.REFERRAL_REFERRER_CREDITS || "100", 10),
+  inviteeCredits: parseInt(process.env.REFERRAL_INVITEE_CREDITS || "0", 10)
+};
+
+export interface ReferralStats {
+  referralCode: string;
+  credits: number;
+  rules: ReferralRules;
+  invitees: {
+    username: string;
+    joinedAt: Date;
+    gamesPlayed: number;
+    rewarded: boolean;
+  }[];
+}
+
+const REFERRAL_CODE_LENGTH = 8;
+const REFERRAL_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+// How far up the referrer chain to look when guarding against loops
+const MAX_REFERRAL_CHAIN_DEPTH = 50;
+
+async function generateReferralCode(): Promise<string> {
+  let code: string;
+  do {
+    code = "";
+    for (let i = 0; i < REFERRAL_CODE_LENGTH; i++) {
+      code += REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)];
+    }
+  } while (await User.exists({ referralCode: code }));
+  return code;
+}
+
+/**
+ * Returns the user's referral code, creating one for accounts made before
+ * referrals existed.
+ */
+export async function ensureReferralCode(userId: mongoose.Types.ObjectId | string): Promise<string> {
+  const user = await User.findById(userId);
+  if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+  if (user.referralCode) return user.referralCode;
+
+  const referralCode = await generateReferralCode();
+  await User.updateOne({ _id: user._id, referralCode: { $exists: false } }, { $set: { referralCode } });
+  return (await User.findById(userId))?.referralCode ?? referralCode;
+}
+
+/**
+ * Records who referred `userId`. Rejects unknown codes, self-referral and
+ * codes that would make the referral chain loop back to the user.
+ */
+export async function applyReferralCode(userId: mongoose.Types.ObjectId, code: string) {
+  const user = await User.findById(userId);
+  if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+  if (user.referredBy) throw new GameError("invalid_state", "کد معرف قبلا ثبت شده است");
+
+  const referrer = await User.findOne({ referralCode: code.trim().toUpperCase() });
+  if (!referrer) throw new GameError("not_found", "کد معرف نامعتبر است");
+  if (referrer._id.equals(user._id) || referrer.phone === user.phone) {
+    throw new GameError("invalid_payload", "نمی‌توانید خودتان را معرفی کنید");
+  }
+
+  let ancestorId = referrer.referredBy;
+  for (let depth = 0; ancestorId && depth < MAX_REFERRAL_CHAIN_DEPTH; depth++) {
+    if (ancestorId.equals(user._id)) throw new GameError("invalid_payload", "این کد معرف باعث ایجاد حلقه می‌شود");
+    ancestorId = (await User.findById(ancestorId).select("referredBy"))?.referredBy;
+  }
+
+  await User.updateOne(
+    { _id: user._id, referredBy: { $exists: false } },
+    {
+      $set: { referredBy: referrer._id, ref: referrer.referralCode },
+      $inc: { credits: REFERRAL_RULES.inviteeCredits }
+    }
+  );
+}
+
+/**
+ * Pays the referrer once the invitee has finished enough games. Safe to call
+ * after every game; the reward is only ever granted once.
+ */
+export async function checkReferralReward(userId: mongoose.Types.ObjectId) {
+  const invitee = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      referredBy: { $exists: true },
+      referralRewarded: { $ne: true },
+      "statistics.totalGames": { $gte: REFERRAL_RULES.requiredGames }
+    },
+    { $set: { referralRewarded: true } }
+  );
+  if (!invitee) return;
+
+  await User.findByIdAndUpdate(invitee.referredBy, { $inc: { credits: REFERRAL_RULES.referrerCredits } });
+}
+
+export async function getReferralStats(userId: string): Promise<ReferralStats> {
+  const referralCode = await ensureReferralCode(userId);
+  const user = await User.findById(userId);
+  const invitees = await User.find({ referredBy: user._id })
+    .select("username createdAt statistics.totalGames referralRewarded")
+    .sort({ createdAt: -1 })
+    .lean<any[]>();
+
+  return {
+    referralCode,
+    credits: user.credits ?? 0,
+    rules: REFERRAL_RULES,
+    invitees: invitees.map(invitee => ({
+      username: invitee.username,
+      joinedAt: invitee.createdAt,
+      gamesPlayed: invitee.statistics?.totalGames ?? 0,
+      rewarded: invitee.referralRewarded ?? false
+    }))
+  };
+}
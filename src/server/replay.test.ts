@@ -0,0 +1,67 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import Game from "../models/Game";
+import { getGameReplay } from "./replay";
+import type { Line } from "./types";
+
+// Player 1 closes the top-left box of a 2x2 board with their fourth line
+const LINES: Line[] = [
+  { start: { row: 0, col: 0 }, end: { row: 0, col: 1 }, player: 1 },
+  { start: { row: 1, col: 0 }, end: { row: 1, col: 1 }, player: 2 },
+  { start: { row: 0, col: 0 }, end: { row: 1, col: 0 }, player: 1 },
+  { start: { row: 0, col: 1 }, end: { row: 1, col: 1 }, player: 1 }
+];
+
+function stubGame(record: object) {
+  mock.method(Game, "findOne", () => ({
+    lean: async () => ({
+      roomId: "room",
+      players: [{ playerNumber: 1, username: "a" }, { playerNumber: 2, username: "b" }],
+      settings: { width: 2, height: 2 },
+      startedAt: new Date(0),
+      endedAt: new Date(1000),
+      ...record
+    })
+  }));
+}
+
+describe("getGameReplay", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("steps through the moves with the score after each", async () => {
+    stubGame({ gameState: { lines: LINES, winner: 1, endReason: "resigned" } });
+    const replay = await getGameReplay("room", 3);
+
+    assert.equal(replay.totalSteps, 4);
+    assert.deepEqual(replay.steps.map(step => step.capturedBoxes.length), [0, 0, 0, 1]);
+    assert.deepEqual(replay.steps[3].scores, { player1: 1, player2: 0 });
+    assert.equal(replay.board?.lines.length, 3);
+    assert.deepEqual(replay.board?.scores, { player1: 0, player2: 0 });
+  });
+
+  it("keeps a stored draw even when one side has more boxes", async () => {
+    stubGame({ gameState: { lines: LINES, winner: null, endReason: "draw_agreed" } });
+    const replay = await getGameReplay("room");
+
+    assert.equal(replay.winner, null);
+    assert.equal(replay.endReason, "draw_agreed");
+  });
+
+  it("has no winner for an aborted game", async () => {
+    stubGame({ aborted: true, gameState: { lines: LINES, winner: null } });
+    const replay = await getGameReplay("room");
+
+    assert.equal(replay.winner, null);
+    assert.equal(replay.endReason, null);
+  });
+
+  it("falls back to the final score for records saved without a winner", async () => {
+    stubGame({ gameState: { lines: LINES } });
+    assert.equal((await getGameReplay("room")).winner, 1);
+  });
+
+  it("rejects steps past the end of the game", async () => {
+    stubGame({ gameState: { lines: LINES, winner: 1 } });
+    await assert.rejects(getGameReplay("room", 5), { code: "invalid_payload" });
+  });
+});
@@ -0,0 +1,113 @@
+import Game from "../models/Game";
+import { checkForBoxes, determineWinner } from "./engine";
+import { DEFAULT_SETTINGS, RoomSettings } from "./settings";
+import type { Box, EndReason, Line, PlayerNumber } from "./types";
+import { GameError } from "./protocol";
+
+export interface ReplayStep {
+  index: number;
+  move: Line;
+  capturedBoxes: Box[];
+  scores: { player1: number; player2: number };
+}
+
+export interface ReplayBoard {
+  step: number;
+  lines: Line[];
+  boxes: Box[];
+  scores: { player1: number; player2: number };
+}
+
+export interface ReplayReaction {
+  playerNumber: PlayerNumber;
+  reactionId: string;
+  timestamp: Date;
+}
+
+export interface GameReplay {
+  roomId: string;
+  players: { playerNumber: number; username: string }[];
+  settings: RoomSettings;
+  startedAt: Date;
+  endedAt: Date;
+  winner: PlayerNumber | null;
+  endReason: EndReason | null;
+  totalSteps: number;
+  steps: ReplayStep[];
+  reactions: ReplayReaction[];
+  board?: ReplayBoard;
+}
+
+function scoreBoxes(boxes: Box[]) {
+  return {
+    player1: boxes.filter(box => box.player === 1).length,
+    player2: boxes.filter(box => box.player === 2).length
+  };
+}
+
+/**
+ * Rebuilds the ordered move list of a saved game with the score after each
+ * move. When `step` is given, also returns the board as it stood after that
+ * many moves (0 is the empty board).
+ */
+export function buildReplay(lines: Line[], settings: RoomSettings, step?: number) {
+  const steps: ReplayStep[] = [];
+  let boxes: Box[] = [];
+
+  lines.forEach((move, index) => {
+    const nextBoxes = checkForBoxes(lines.slice(0, index + 1), settings);
+    const capturedBoxes = nextBoxes.filter(box => !boxes.some(existing => existing.id === box.id));
+    boxes = nextBoxes;
+    steps.push({ index, move, capturedBoxes, scores: scoreBoxes(boxes) });
+  });
+
+  let board: ReplayBoard | undefined;
+  if (step !== undefined) {
+    const boardLines = lines.slice(0, step);
+    const boardBoxes = checkForBoxes(boardLines, settings);
+    board = { step, lines: boardLines, boxes: boardBoxes, scores: scoreBoxes(boardBoxes) };
+  }
+
+  return { steps, board };
+}
+
+export async function getGameReplay(roomId: string, step?: number): Promise<GameReplay> {
+  const game = await Game.findOne({ roomId }).lean<any>();
+  if (!game || !game.endedAt) throw new GameError("not_found", "بازی پایان‌یافته‌ای با این شناسه یافت نشد");
+
+  const stored = game.gameState ?? {};
+  const lines: Line[] = (stored.lines ?? []).map((line: any) => ({
+    start: { row: line.start.row, col: line.start.col },
+    end: { row: line.end.row, col: line.end.col },
+    player: line.player,
+    timestamp: line.timestamp
+  }));
+
+  if (step !== undefined && (!Number.isInteger(step) || step < 0 || step > lines.length)) {
+    throw new GameError("invalid_payload", `شماره مرحله باید بین 0 و ${lines.length} باشد`);
+  }
+
+  const settings: RoomSettings = { ...DEFAULT_SETTINGS, ...game.settings };
+  const { steps, board } = buildReplay(lines, settings, step);
+  const finalScores = steps.length > 0 ? steps[steps.length - 1].scores : { player1: 0, player2: 0 };
+
+  return {
+    roomId: game.roomId,
+    players: game.players.map((p: any) => ({ playerNumber: p.playerNumber, username: p.username })),
+    settings,
+    startedAt: game.startedAt,
+    endedAt: game.endedAt,
+    // A stored null is a result too (a draw or an aborted game); only records
+    // saved without a winner at all fall back to the final score
+    winner: game.aborted ? null : "winner" in stored ? stored.winner : determineWinner(finalScores),
+    endReason: stored.endReason ?? null,
+    totalSteps: lines.length,
+    steps,
+    reactions: (game.reactions ?? []).map((r: any) => ({
+      playerNumber: r.playerNumber,
+      reactionId: r.reactionId,
+      timestamp: r.timestamp
+    })),
+    board
+  };
+}
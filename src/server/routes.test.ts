@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import mongoose from "mongoose";
+import Game from "../models/Game";
+import { handleApiRequest } from "./routes";
+
+describe("handleApiRequest", () => {
+  let server: Server;
+  let baseUrl: string;
+  const userId = new mongoose.Types.ObjectId().toString();
+
+  beforeEach(async () => {
+    server = createServer(async (req, res) => {
+      if (!await handleApiRequest(req, res)) res.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    mock.restoreAll();
+  });
+
+  it("answers a game error with its status and message", async () => {
+    const response = await fetch(`${baseUrl}/api/users/not-an-id/matches`);
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { success: false, message: "شناسه کاربر نامعتبر است" });
+  });
+
+  it("rejects history filters that don't parse", async () => {
+    for (const query of ["from=someday", "to=2024-13-45", "result=won"]) {
+      const response = await fetch(`${baseUrl}/api/users/${userId}/matches?${query}`);
+      assert.equal(response.status, 400, query);
+    }
+  });
+
+  it("hides the details of unexpected failures behind a 500", async () => {
+    mock.method(console, "error", () => undefined);
+    mock.method(Game, "find", () => {
+      throw new Error("connection to 10.0.0.5:27017 refused");
+    });
+    const response = await fetch(`${baseUrl}/api/users/${userId}/matches`);
+    const body = await response.json();
+
+    assert.equal(response.status, 500);
+    assert.equal(body.success, false);
+    assert.doesNotMatch(body.message, /10\.0\.0\.5/);
+  });
+});
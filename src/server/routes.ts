@@ -0,0 +1,171 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { SessionPayload, requestOtp, verifyOtp, verifySessionToken } from "./auth";
+import { getMatchHistory, parseHistoryDate, parseMatchResult } from "./history";
+import { LeaderboardMetric, LeaderboardPeriod, getLeaderboard } from "./leaderboard";
+import { getReferralStats } from "./referral";
+import { getGameReplay } from "./replay";
+import { ErrorCode, GameError } from "./protocol";
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  session: SessionPayload | null;
+}
+
+type RouteHandler = (context: RouteContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Status for errors thrown by the game modules; anything not listed is a 400
+const GAME_ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  invalid_state: 409,
+  rate_limited: 429
+};
+
+const MAX_BODY_SIZE = 16 * 1024; // bytes
+
+function requireSession(session: SessionPayload | null): SessionPayload {
+  if (!session) throw new HttpError(401, "ابتدا وارد حساب کاربری خود شوید");
+  return session;
+}
+
+function parseOptionalInt(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) throw new HttpError(400, "پارامتر عددی نامعتبر است");
+  return parsed;
+}
+
+const routes: Route[] = [
+  {
+    method: "GET",
+    pattern: /^\/api\/games\/([^/]+)\/replay$/,
+    handler: async ({ params: [roomId], query }) => ({
+      replay: await getGameReplay(decodeURIComponent(roomId), parseOptionalInt(query.get("step")))
+    })
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/users\/([^/]+)\/matches$/,
+    handler: async ({ params: [userId], query }) => getMatchHistory({
+      userId: decodeURIComponent(userId),
+      cursor: query.get("cursor") || undefined,
+      limit: parseOptionalInt(query.get("limit")),
+      result: parseMatchResult(query.get("result")),
+      from: parseHistoryDate(query.get("from")),
+      to: parseHistoryDate(query.get("to")),
+      opponentId: query.get("opponentId") || undefined
+    })
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/leaderboard$/,
+    handler: async ({ query, session }) => ({
+      leaderboard: await getLeaderboard({
+        period: (query.get("period") || undefined) as LeaderboardPeriod | undefined,
+        metric: (query.get("metric") || undefined) as LeaderboardMetric | undefined,
+        page: parseOptionalInt(query.get("page")),
+        limit: parseOptionalInt(query.get("limit")),
+        userId: query.get("userId") || session?.userId
+      })
+    })
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/request-otp$/,
+    handler: async ({ body }) => requestOtp(body?.phone)
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/verify-otp$/,
+    handler: async ({ body }) => verifyOtp(body?.phone, body?.code, body?.username, body?.referralCode)
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/referrals\/me$/,
+    handler: async ({ session }) => ({
+      referrals: await getReferralStats(requireSession(session).userId)
+    })
+  }
+];
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  if (req.method === "GET" || req.method === "HEAD") return undefined;
+
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_SIZE) throw new HttpError(413, "حجم درخواست بیش از حد مجاز است");
+  }
+  if (!raw) return undefined;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "بدنه درخواست JSON معتبر نیست");
+  }
+}
+
+function readSession(req: IncomingMessage): SessionPayload | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return verifySessionToken(header.slice("Bearer ".length));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serves the game's JSON API. Returns false when the request is not an API
+ * route so it can fall through to Next.js.
+ */
+export async function handleApiRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const url = new URL(req.url || "/", "http://localhost");
+
+  for (const route of routes) {
+    const match = url.pathname.match(route.pattern);
+    if (!match || req.method !== route.method) continue;
+
+    try {
+      const data = await route.handler({
+        params: match.slice(1),
+        query: url.searchParams,
+        body: await readJsonBody(req),
+        session: readSession(req)
+      });
+      sendJson(res, 200, { success: true, ...(data as object) });
+    } catch (error: any) {
+      if (error instanceof HttpError || error instanceof GameError) {
+        const status = error instanceof HttpError ? error.status : GAME_ERROR_STATUS[error.code] ?? 400;
+        sendJson(res, status, { success: false, message: error.message });
+      } else {
+        // Anything else is our failure, e.g. the database; its details stay in the log
+        console.error(`API error on ${req.method} ${url.pathname}:`, error);
+        sendJson(res, 500, { success: false, message: "خطایی در سرور رخ داد" });
+      }
+    }
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,360 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import AuditLog from "../models/AuditLog";
+import User from "../models/User";
+import { GameClient } from "../client";
+import { signSessionToken } from "./auth";
+import { GameServerHandle, createGameServer } from "./server";
+import { connectClient, nextEvent, stubDatabase } from "./testing";
+
+type StatsUpdate = { userId: string; $inc: Record<string, number> };
+
+// Accounts exist as far as sign-in and the end-of-game statistics go.
+// Resolves once two players' statistics have been updated.
+function stubAccounts(): Promise<StatsUpdate[]> {
+  const updates: StatsUpdate[] = [];
+  let bothRecorded: (updates: StatsUpdate[]) => void;
+  const statsUpdates = new Promise<StatsUpdate[]>(resolve => bothRecorded = resolve);
+
+  mock.method(User, "findById", async (userId: mongoose.Types.ObjectId) => ({ _id: userId, statistics: {} }));
+  mock.method(User, "findOneAndUpdate", async () => null);
+  mock.method(User, "findByIdAndUpdate", async (userId: string | mongoose.Types.ObjectId, update: { $inc?: Record<string, number> }) => {
+    if (update.$inc) {
+      updates.push({ userId: userId.toString(), $inc: update.$inc });
+      if (updates.length === 2) bothRecorded(updates);
+    }
+    return { _id: new mongoose.Types.ObjectId(userId.toString()), phone: "09120000000", statistics: {} };
+  });
+  return statsUpdates;
+}
+
+function signIn(port: number, userId = new mongoose.Types.ObjectId().toString()): GameClient {
+  return connectClient(port, { token: signSessionToken(userId, "09120000000") });
+}
+
+describe("matchmaking", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+
+  beforeEach(async () => {
+    stubDatabase();
+    stubAccounts();
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  it("never pairs an account with itself", { timeout: 10 * 1000 }, async () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const firstTab = signIn(server.port, userId);
+    const secondTab = signIn(server.port, userId);
+    const opponent = signIn(server.port);
+    clients.push(firstTab, secondTab, opponent);
+
+    await firstTab.joinQueue({ username: "player" });
+    await secondTab.joinQueue({ username: "player" });
+
+    // Had the two tabs been paired, the opponent would be left waiting alone
+    const started = Promise.all([nextEvent(firstTab, "start_game"), nextEvent(opponent, "start_game")]);
+    await opponent.joinQueue({ username: "opponent" });
+    await started;
+
+    assert.equal(firstTab.roomId, opponent.roomId);
+    assert.equal(secondTab.roomId, null);
+  });
+
+  it("lets players queue again once their game has ended", { timeout: 10 * 1000 }, async () => {
+    const winner = signIn(server.port);
+    const loser = signIn(server.port);
+    const newcomer = signIn(server.port);
+    clients.push(winner, loser, newcomer);
+
+    const started = Promise.all([nextEvent(winner, "start_game"), nextEvent(loser, "start_game")]);
+    await winner.joinQueue({ username: "winner" });
+    await loser.joinQueue({ username: "loser" });
+    await started;
+    const finishedRoom = loser.roomId;
+    await loser.resign();
+
+    await loser.joinQueue({ username: "loser" });
+    // Having moved on, the loser is no longer available for a rematch
+    await assert.rejects(winner.requestRematch(), { code: "busy" });
+
+    // Their seat in the finished game is given up once the next one starts
+    const left = nextEvent(winner, "player_left");
+    const next = Promise.all([
+      nextEvent(loser, "start_game", ({ roomId }) => roomId !== finishedRoom),
+      nextEvent(newcomer, "start_game")
+    ]);
+    await newcomer.joinQueue({ username: "newcomer" });
+    const [loserGame, newcomerGame] = await next;
+    assert.equal(loserGame.roomId, newcomerGame.roomId);
+    assert.equal((await left).gameState.gameStatus, "ended");
+  });
+});
+
+describe("rematches", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+
+  beforeEach(async () => {
+    stubDatabase();
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  async function finishGame(): Promise<[GameClient, GameClient]> {
+    const winner = connectClient(server.port);
+    const loser = connectClient(server.port);
+    clients.push(winner, loser);
+
+    const started = Promise.all([nextEvent(winner, "start_game"), nextEvent(loser, "start_game")]);
+    await winner.joinQueue({ username: "winner" });
+    await loser.joinQueue({ username: "loser" });
+    await started;
+    await loser.resign();
+    return [winner, loser];
+  }
+
+  it("answers an accepted rematch once the next game has started", { timeout: 10 * 1000 }, async () => {
+    const [winner, loser] = await finishGame();
+    const finishedRoom = loser.roomId;
+
+    const offered = nextEvent(loser, "rematch_requested");
+    await winner.requestRematch();
+    await offered;
+    await loser.acceptRematch();
+
+    assert.ok(loser.roomId);
+    assert.notEqual(loser.roomId, finishedRoom);
+    assert.equal(loser.gameState?.series.gameNumber, 2);
+  });
+
+  it("refuses to accept an offer that was withdrawn", { timeout: 10 * 1000 }, async () => {
+    const [winner, loser] = await finishGame();
+
+    const offered = nextEvent(loser, "rematch_requested");
+    await winner.requestRematch();
+    await offered;
+    await winner.leaveRoom();
+
+    await assert.rejects(loser.acceptRematch(), { code: "invalid_state" });
+  });
+});
+
+describe("leaving a game", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+  let gameUpdates: ReturnType<typeof stubDatabase>;
+  let statsUpdates: Promise<StatsUpdate[]>;
+
+  beforeEach(async () => {
+    gameUpdates = stubDatabase();
+    statsUpdates = stubAccounts();
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  // Starts a match between two accounts, then has the first one leave it
+  async function abandonMatch() {
+    const leaverId = new mongoose.Types.ObjectId().toString();
+    const stayerId = new mongoose.Types.ObjectId().toString();
+    const leaver = signIn(server.port, leaverId);
+    const stayer = signIn(server.port, stayerId);
+    clients.push(leaver, stayer);
+
+    const started = Promise.all([nextEvent(leaver, "start_game"), nextEvent(stayer, "start_game")]);
+    await leaver.joinQueue({ username: "leaver" });
+    await stayer.joinQueue({ username: "stayer" });
+    await started;
+    const roomId = leaver.roomId;
+
+    const left = nextEvent(stayer, "player_left");
+    await leaver.leaveRoom();
+    const { gameState } = await left;
+    return { leaverId, stayerId, stayer, roomId, gameState };
+  }
+
+  it("forfeits the game and counts an abandonment for the leaver", { timeout: 10 * 1000 }, async () => {
+    const { leaverId, stayerId, stayer, gameState } = await abandonMatch();
+
+    assert.equal(gameState.gameStatus, "ended");
+    assert.equal(gameState.endReason, "abandoned");
+    assert.equal(gameState.winner, stayer.playerNumber);
+
+    const updates = await statsUpdates;
+    const leaverStats = updates.find(update => update.userId === leaverId)?.$inc;
+    const stayerStats = updates.find(update => update.userId === stayerId)?.$inc;
+    assert.equal(leaverStats?.["statistics.abandonments"], 1);
+    assert.equal(leaverStats?.["statistics.losses"], 1);
+    assert.equal(stayerStats?.["statistics.abandonments"], undefined);
+    assert.equal(stayerStats?.["statistics.wins"], 1);
+  });
+
+  it("finalizes the forfeited game so a restart doesn't restore it", { timeout: 10 * 1000 }, async () => {
+    const { roomId } = await abandonMatch();
+
+    // The query restoreCheckpointedRooms runs skips games with endedAt and no checkpoint
+    const saved = gameUpdates.mock.calls
+      .map(call => call.arguments as [{ roomId?: string }, { $set?: { endedAt?: Date }; $unset?: Record<string, number> }])
+      .find(([filter, update]) => filter.roomId === roomId && update.$set?.endedAt);
+    assert.ok(saved, "the game was not saved");
+    assert.deepEqual(saved[1].$unset, { checkpoint: 1, checkpointedAt: 1 });
+  });
+});
+
+describe("time control", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+
+  beforeEach(async () => {
+    stubDatabase();
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    mock.timers.reset();
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  // A private game on a 30 second bank with a 5 second increment, the player on turn first
+  async function startBankGame(): Promise<[GameClient, GameClient]> {
+    const host = connectClient(server.port);
+    const guest = connectClient(server.port);
+    clients.push(host, guest);
+
+    const started = Promise.all([nextEvent(host, "start_game"), nextEvent(guest, "start_game")]);
+    const { code } = await host.createPrivateRoom({ username: "host", settings: { timeControl: "bank", bankTime: 30, increment: 5 } });
+    assert.ok(code);
+    await guest.joinPrivateRoom(code, "guest");
+    await started;
+    return host.playerNumber === host.gameState?.currentPlayer ? [host, guest] : [guest, host];
+  }
+
+  async function playFirstLine(mover: GameClient) {
+    const updated = nextEvent(mover, "game_update", ({ gameState }) => gameState.lines.length === 1);
+    await mover.makeMove({ start: { row: 0, col: 0 }, end: { row: 0, col: 1 } });
+    return (await updated).gameState;
+  }
+
+  it("charges a move to the mover's bank and adds the increment", { timeout: 10 * 1000 }, async () => {
+    const [mover, waiter] = await startBankGame();
+    const gameState = await playFirstLine(mover);
+    const clocks = gameState.clocks!;
+
+    // The move took well under a second of the 30, then 5 came back
+    assert.ok(clocks[`player${mover.playerNumber!}`] > 34 && clocks[`player${mover.playerNumber!}`] <= 35);
+    assert.equal(clocks[`player${waiter.playerNumber!}`], 30);
+    assert.equal(gameState.currentPlayer, waiter.playerNumber);
+    assert.ok(gameState.turnDeadline && Math.abs(gameState.turnDeadline - Date.now() - 30 * 1000) < 1000);
+  });
+
+  it("ends the game against a player whose bank runs out", { timeout: 10 * 1000 }, async () => {
+    const [mover, waiter] = await startBankGame();
+
+    const expired = nextEvent(mover, "time_expired");
+    const ended = nextEvent(mover, "game_update", ({ gameState }) => gameState.gameStatus === "ended");
+
+    // The waiter's clock starts with the move, on timers the test controls
+    mock.timers.enable({ apis: ["setTimeout"] });
+    await playFirstLine(mover);
+    mock.timers.tick(30 * 1000);
+
+    assert.equal((await expired).playerNumber, waiter.playerNumber);
+    const { gameState } = await ended;
+    assert.equal(gameState.endReason, "timeout");
+    assert.equal(gameState.winner, mover.playerNumber);
+  });
+
+  it("stops the clock for an agreed pause and runs it on from there", { timeout: 10 * 1000 }, async () => {
+    const [mover, waiter] = await startBankGame();
+
+    const paused = nextEvent(mover, "game_paused");
+    await mover.requestPause();
+    await waiter.respondToPause(true);
+    const { pausedBy, gameState: pausedState } = await paused;
+    const bank = pausedState.clocks![`player${mover.playerNumber!}`];
+
+    assert.equal(pausedBy, mover.playerNumber);
+    assert.equal(pausedState.isPaused, true);
+    assert.equal(pausedState.turnDeadline, null);
+    assert.equal(pausedState.timeLeft, bank);
+    assert.deepEqual(pausedState.pause.remaining, { [`player${mover.playerNumber!}`]: 1, [`player${waiter.playerNumber!}`]: 2 });
+
+    const resumed = nextEvent(mover, "game_resumed");
+    await waiter.resumeGame();
+    const { gameState } = await resumed;
+    assert.equal(gameState.isPaused, false);
+    assert.ok(gameState.turnDeadline && Math.abs(gameState.turnDeadline - Date.now() - bank * 1000) < 1000);
+  });
+});
+
+describe("admin events", () => {
+  let server: GameServerHandle;
+  let clients: GameClient[];
+  let auditLog: ReturnType<typeof mock.method>;
+
+  beforeEach(async () => {
+    stubDatabase();
+    mock.method(User, "findById", async (userId: mongoose.Types.ObjectId) => ({ _id: userId, rol: "admin", statistics: {} }));
+    auditLog = mock.method(AuditLog, "create", async () => ({}));
+    server = await createGameServer();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+    mock.restoreAll();
+  });
+
+  it("only logs ending a room when the game was still running", { timeout: 10 * 1000 }, async () => {
+    const admin = signIn(server.port);
+    const host = connectClient(server.port);
+    const guest = connectClient(server.port);
+    clients.push(admin, host, guest);
+
+    const started = Promise.all([nextEvent(host, "start_game"), nextEvent(guest, "start_game")]);
+    const { code, roomId } = await host.createPrivateRoom({ username: "host" });
+    assert.ok(code);
+    await guest.joinPrivateRoom(code, "guest");
+    await started;
+
+    const ended = nextEvent(host, "game_force_ended");
+    await admin.adminEndRoom(roomId, 1, "cheating");
+    assert.equal((await ended).gameState.winner, 1);
+    assert.equal(auditLog.mock.callCount(), 1);
+
+    await assert.rejects(admin.adminEndRoom(roomId, 2), { code: "invalid_state" });
+    assert.equal(auditLog.mock.callCount(), 1);
+  });
+
+  it("rejects a game search with a date that doesn't parse", { timeout: 10 * 1000 }, async () => {
+    const admin = signIn(server.port);
+    clients.push(admin);
+
+    await assert.rejects(admin.adminSearchGames({ from: "last tuesday" }), { code: "invalid_payload" });
+    assert.equal(auditLog.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,2995 @@
+import { Server, Socket } from "socket.io";
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { v4 as uuidv4 } from "uuid";
+import mongoose from "mongoose";
+import User from "../models/User";
+import Game from "../models/Game";
+import type { Box, Card, CardReason, CardType, EndReason, GameState, Line, PlayerNumber } from "./types";
+import { MoveRejection, applyMove, getAvailableMoves, otherPlayer } from "./engine";
+import { REACTIONS, REACTION_COOLDOWN, findReaction } from "./reactions";
+import { MAX_MESSAGE_LENGTH, allowMessage, isAbusive } from "./moderation";
+import { getGameReplay } from "./replay";
+import { getLeaderboard } from "./leaderboard";
+import { getMatchHistory, parseHistoryDate, parseMatchResult } from "./history";
+import { verifySessionToken } from "./auth";
+import { assertNotBanned, banUser, isMuted, muteUser, requireAdmin, resetUserStatistics, searchGames, writeAuditLog } from "./admin";
+import { checkReferralReward, getReferralStats } from "./referral";
+import { handleApiRequest } from "./routes";
+import { BOT_LEVELS, BOT_NAMES, BotLevel, chooseBotMove } from "./bot";
+import { DEFAULT_SETTINGS, RoomSettings, resolveSettings, settingsKey } from "./settings";
+import { DEFAULT_RATING, allowedRatingGap, calculateRatings, estimateWaitForGap } from "./rating";
+import { BracketMatch, TournamentManager, TournamentSeat } from "./tournament";
+import { GameStore, MemoryStore, PlayerSnapshot, RedisStore, RoomSnapshot } from "./store";
+import type { RedisClient } from "./redis";
+import { createPubSubAdapter } from "./cluster";
+import {
+  ChatHistoryItem, ClientToServerEvents, GameError, LiveGameSummary, MIN_PROTOCOL_VERSION, MoveInput, PROTOCOL_VERSION,
+  RoomSummary, ServerToClientEvents, errorResponse, findInvalidField, isSupportedVersion
+} from "./protocol";
+
+// Constants
+const MAX_YELLOW_CARDS = 2;
+const MAX_RED_CARDS = 1;
+const ROOM_CLEANUP_INTERVAL = 15 * 60 * 1000; // 15 minutes in milliseconds
+const RECONNECT_GRACE_PERIOD = 60 * 1000; // 1 minute in milliseconds
+const RESTORE_GRACE_PERIOD = 2 * 60 * 1000; // 2 minutes in milliseconds
+const PRIVATE_ROOM_EXPIRY = 10 * 60 * 1000; // 10 minutes in milliseconds
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const MATCHMAKING_INTERVAL = 2 * 1000; // 2 seconds in milliseconds
+const BOT_MOVE_DELAY = 800; // milliseconds
+const REMATCH_OFFER_TIMEOUT = 30 * 1000; // 30 seconds in milliseconds
+const PAUSES_PER_PLAYER = 2;
+const PAUSE_REQUEST_TIMEOUT = 15 * 1000; // 15 seconds in milliseconds
+const MAX_PAUSE_DURATION = 60 * 1000; // 1 minute in milliseconds
+const DRAW_OFFER_MOVE_INTERVAL = 10; // moves between a player's draw offers
+const LEASE_TTL = 15 * 1000; // 15 seconds in milliseconds
+const LEASE_RENEW_INTERVAL = 5 * 1000; // 5 seconds in milliseconds
+const MATCHMAKING_LEASE = "matchmaking";
+const TOURNAMENTS_LEASE = "tournaments";
+const INVALID_MOVE_LIMIT = 5;
+const INVALID_MOVE_WINDOW = 10 * 1000; // 10 seconds in milliseconds
+
+const MOVE_REJECTION_MESSAGES: Record<MoveRejection, string> = {
+  game_not_active: "بازی فعال نیست",
+  not_your_turn: "نوبت شما نیست",
+  invalid_line: "این خط معتبر نیست",
+  line_taken: "این خط قبلاً کشیده شده است"
+};
+
+const CARD_REASON_MESSAGES: Record<CardReason, string> = {
+  timeout: "پایان زمان نوبت",
+  invalid_moves: "ارسال حرکات نامعتبر پشت سر هم",
+  abusive_chat: "استفاده از کلمات نامناسب در گفتگو"
+};
+
+// Counter each end reason adds to the loser's statistics
+const LOSS_REASON_STATS: Partial<Record<EndReason, string>> = {
+  resigned: "statistics.resignations",
+  timeout: "statistics.timeLosses",
+  abandoned: "statistics.abandonments"
+};
+
+interface Series {
+  id: string;
+  gameNumber: number;
+  previousRoomId?: string;
+  wins: Map<string, number>; // player session token -> wins
+  draws: number;
+}
+
+interface TournamentGame {
+  id: string;
+  matchId: string;
+}
+
+interface RematchOffer {
+  from: PlayerNumber;
+  swapFirst: boolean;
+  timer: NodeJS.Timeout;
+}
+
+// Room Management
+// One game server. Several can run side by side when they share a Redis.
+interface GameNode {
+  id: string;
+  io: GameServer;
+  // Snapshots of every node's rooms, the matchmaking queue and invite codes
+  store: GameStore;
+  clustered: boolean;
+  // Rooms owned by this node, which runs their timers
+  rooms: Map<string, Room>;
+  tournaments: TournamentManager;
+  runsTournaments: boolean;
+  forwardedSockets: Map<string, ForwardedSocket>;
+  closed: boolean;
+}
+
+class Player {
+  username: string;
+  socketId: string;
+  playerNumber: PlayerNumber | null;
+  userId?: mongoose.Types.ObjectId;
+  phone?: string;
+  ref?: string;
+  sessionToken: string;
+  connected: boolean;
+  reconnectTimer?: NodeJS.Timeout;
+  rating: number;
+  queuedAt: number;
+  isBot: boolean;
+  botLevel?: BotLevel;
+  settings: RoomSettings;
+  invalidMoveTimes: number[];
+  mutedUntil?: Date;
+  messageTimes: number[];
+  mutedOpponent: boolean;
+  lastReactionAt: number;
+  reactionsEnabled: boolean;
+
+  constructor(
+    username: string, 
+    socketId: string, 
+    playerNumber: PlayerNumber | null = null,
+    userId?: mongoose.Types.ObjectId,
+    phone?: string,
+    ref?: string,
+    rating: number = DEFAULT_RATING
+  ) {
+    this.username = username;
+    this.socketId = socketId;
+    this.playerNumber = playerNumber;
+    this.userId = userId;
+    this.phone = phone;
+    this.ref = ref;
+    this.sessionToken = uuidv4();
+    this.connected = true;
+    this.rating = rating;
+    this.queuedAt = Date.now();
+    this.isBot = false;
+    this.settings = DEFAULT_SETTINGS;
+    this.invalidMoveTimes = [];
+    this.messageTimes = [];
+    this.mutedOpponent = false;
+    this.lastReactionAt = 0;
+    this.reactionsEnabled = true;
+  }
+
+  // Same person, fresh per-match state, for the next game of a series
+  cloneForRematch(): Player {
+    const player = new Player(this.username, this.socketId, null, this.userId, this.phone, this.ref, this.rating);
+    player.sessionToken = this.sessionToken;
+    player.isBot = this.isBot;
+    player.botLevel = this.botLevel;
+    player.settings = this.settings;
+    player.mutedUntil = this.mutedUntil;
+    return player;
+  }
+
+  static createBot(level: BotLevel): Player {
+    const bot = new Player(BOT_NAMES[level], `bot-${uuidv4()}`);
+    bot.isBot = true;
+    bot.botLevel = level;
+    return bot;
+  }
+
+  toSnapshot(): PlayerSnapshot {
+    return {
+      username: this.username,
+      socketId: this.socketId,
+      playerNumber: this.playerNumber,
+      userId: this.userId?.toString(),
+      phone: this.phone,
+      ref: this.ref,
+      sessionToken: this.sessionToken,
+      connected: this.connected,
+      rating: this.rating,
+      queuedAt: this.queuedAt,
+      isBot: this.isBot,
+      botLevel: this.botLevel,
+      settings: this.settings,
+      mutedUntil: this.mutedUntil?.toISOString(),
+      mutedOpponent: this.mutedOpponent,
+      reactionsEnabled: this.reactionsEnabled
+    };
+  }
+
+  static fromSnapshot(snapshot: PlayerSnapshot): Player {
+    const player = new Player(
+      snapshot.username,
+      snapshot.socketId,
+      snapshot.playerNumber,
+      snapshot.userId ? new mongoose.Types.ObjectId(snapshot.userId) : undefined,
+      snapshot.phone,
+      snapshot.ref,
+      snapshot.rating
+    );
+    player.sessionToken = snapshot.sessionToken;
+    player.connected = snapshot.connected;
+    player.queuedAt = snapshot.queuedAt;
+    player.isBot = snapshot.isBot;
+    player.botLevel = snapshot.botLevel;
+    player.settings = snapshot.settings;
+    player.mutedUntil = snapshot.mutedUntil ? new Date(snapshot.mutedUntil) : undefined;
+    player.mutedOpponent = snapshot.mutedOpponent;
+    player.reactionsEnabled = snapshot.reactionsEnabled;
+    return player;
+  }
+
+  clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+}
+
+class Room {
+  node: GameNode;
+  id: string;
+  players: Map<string, Player>;
+  gameState: GameState;
+  turnTimer?: NodeJS.Timeout;
+  botTimer?: NodeJS.Timeout;
+  pauseTimer?: NodeJS.Timeout;
+  pauseRequestTimer?: NodeJS.Timeout;
+  lastActivityTime: number;
+  gameStartTime: Date;
+  inviteCode?: string;
+  inviteTimer?: NodeJS.Timeout;
+  cards: Card[];
+  spectators: Set<string>;
+  series: Series;
+  resultRecorded: boolean;
+  aborted: boolean;
+  restoreTimer?: NodeJS.Timeout;
+  rematchOffer?: RematchOffer;
+  tournament?: TournamentGame;
+
+  constructor(node: GameNode, id: string, settings: RoomSettings = DEFAULT_SETTINGS) {
+    this.node = node;
+    this.id = id;
+    this.players = new Map<string, Player>();
+    this.gameState = {
+      lines: [],
+      boxes: [],
+      currentPlayer: 1,
+      scores: { player1: 0, player2: 0 },
+      warnings: { player1: { yellow: 0, red: 0 }, player2: { yellow: 0, red: 0 } },
+      gameStatus: "waiting",
+      winner: null,
+      endReason: null,
+      isPaused: false,
+      pause: {
+        requestedBy: null,
+        requestExpiresAt: null,
+        resumeAt: null,
+        remaining: { player1: PAUSES_PER_PLAYER, player2: PAUSES_PER_PLAYER }
+      },
+      drawOffer: { offeredBy: null, lastOfferedAt: { player1: null, player2: null } },
+      timeLeft: settings.timeControl === "bank" ? settings.bankTime : settings.turnTime,
+      turnDeadline: null,
+      clocks: settings.timeControl === "bank" ? { player1: settings.bankTime, player2: settings.bankTime } : null,
+      soundEnabled: true,
+      playerNames: { player1: "در انتظار...", player2: "در انتظار..." },
+      settings,
+      spectatorCount: 0,
+      series: { id, gameNumber: 1, wins: { player1: 0, player2: 0 }, draws: 0 }
+    };
+    this.lastActivityTime = Date.now();
+    this.gameStartTime = new Date();
+    this.cards = [];
+    this.spectators = new Set<string>();
+    this.series = { id, gameNumber: 1, wins: new Map(), draws: 0 };
+    this.resultRecorded = false;
+    this.aborted = false;
+  }
+
+  toSnapshot(): RoomSnapshot {
+    return {
+      id: this.id,
+      ownerId: this.node.id,
+      players: Array.from(this.players.values()).map(p => p.toSnapshot()),
+      spectators: Array.from(this.spectators),
+      gameState: this.gameState,
+      gameStartTime: this.gameStartTime.toISOString(),
+      lastActivityTime: this.lastActivityTime,
+      inviteCode: this.inviteCode,
+      cards: this.cards,
+      series: {
+        id: this.series.id,
+        gameNumber: this.series.gameNumber,
+        previousRoomId: this.series.previousRoomId,
+        wins: Object.fromEntries(this.series.wins),
+        draws: this.series.draws
+      },
+      resultRecorded: this.resultRecorded,
+      tournament: this.tournament
+    };
+  }
+
+  static fromSnapshot(node: GameNode, snapshot: RoomSnapshot): Room {
+    const room = new Room(node, snapshot.id, snapshot.gameState.settings);
+    for (const player of snapshot.players) {
+      room.players.set(player.socketId, Player.fromSnapshot(player));
+    }
+    room.spectators = new Set(snapshot.spectators);
+    // Fields added since the snapshot was written keep their defaults
+    room.gameState = { ...room.gameState, ...snapshot.gameState };
+    room.gameStartTime = new Date(snapshot.gameStartTime);
+    room.lastActivityTime = snapshot.lastActivityTime;
+    room.inviteCode = snapshot.inviteCode;
+    room.cards = snapshot.cards;
+    room.series = {
+      id: snapshot.series.id,
+      gameNumber: snapshot.series.gameNumber,
+      previousRoomId: snapshot.series.previousRoomId,
+      wins: new Map(Object.entries(snapshot.series.wins)),
+      draws: snapshot.series.draws
+    };
+    room.resultRecorded = snapshot.resultRecorded;
+    room.tournament = snapshot.tournament;
+    return room;
+  }
+
+  // Publishes the room's current state so other nodes can see it and take it over
+  persist() {
+    // A room this node no longer runs must not be brought back
+    if (this.node.rooms.get(this.id) !== this) return;
+    this.node.store.saveRoom(this.toSnapshot()).catch(error => console.error("Error saving room snapshot:", error));
+  }
+
+  // Stops everything this node runs for the room without touching shared state
+  dispose() {
+    this.clearTurnTimer();
+    this.clearPauseTimers();
+    this.clearRematchOffer();
+    this.clearRestoreTimer();
+    if (this.inviteTimer) {
+      clearTimeout(this.inviteTimer);
+      this.inviteTimer = undefined;
+    }
+    for (const player of this.players.values()) {
+      player.clearReconnectTimer();
+    }
+  }
+
+  /**
+   * Picks up a room taken over from another node. Players whose sockets went
+   * down with that node get the usual reconnect grace period.
+   */
+  async resume() {
+    // The clock kept running while nobody ran the room
+    this.stopTurnClock();
+    this.restorePauseTimers();
+
+    for (const player of Array.from(this.players.values())) {
+      if (player.isBot) continue;
+
+      const sockets = await this.node.io.in(player.socketId).fetchSockets();
+      if (sockets.length > 0) continue;
+
+      if (this.gameState.gameStatus === "active") {
+        this.markDisconnected(player.socketId);
+      } else {
+        this.removePlayer(player.socketId);
+      }
+    }
+
+    if (this.isEmpty()) {
+      await dropRoom(this);
+      return;
+    }
+
+    if (this.inviteCode) this.scheduleInviteExpiry();
+    if (this.gameState.gameStatus === "active" && !this.gameState.isPaused && !this.hasDisconnectedPlayers()) {
+      this.runTurnClock();
+    }
+    this.persist();
+  }
+
+  /**
+   * Waits for the players of a match restored after a restart. If nobody
+   * rejoins in time the match is aborted; otherwise whoever is still missing
+   * forfeits.
+   */
+  awaitReturningPlayers() {
+    const humans = Array.from(this.players.values()).filter(p => !p.isBot);
+    humans.forEach(player => player.connected = false);
+
+    // The outage isn't the fault of whoever was on turn, so they get their time back
+    this.clearTurnTimer();
+    this.gameState.timeLeft = this.turnAllowance();
+    this.restorePauseTimers();
+
+    this.restoreTimer = setTimeout(() => {
+      this.restoreTimer = undefined;
+      const missing = humans.filter(p => !p.connected);
+      if (missing.length === humans.length) {
+        this.abort("هیچ‌یک از بازیکنان به بازی بازنگشتند")
+          .catch(error => console.error("Error aborting restored game:", error));
+        return;
+      }
+      for (const player of missing) {
+        handlePlayerLeaving(this.node, player.socketId, this.id)
+          .catch(error => console.error("Error forfeiting missing player:", error));
+      }
+    }, RESTORE_GRACE_PERIOD);
+    this.persist();
+  }
+
+  clearRestoreTimer() {
+    if (this.restoreTimer) {
+      clearTimeout(this.restoreTimer);
+      this.restoreTimer = undefined;
+    }
+  }
+
+  // Closes the match without a winner and without touching anyone's statistics
+  async abort(message: string) {
+    this.clearTurnTimer();
+    this.clearRestoreTimer();
+    this.gameState.gameStatus = "ended";
+    this.gameState.winner = null;
+    this.gameState.endReason = "abandoned";
+    this.aborted = true;
+    this.resultRecorded = true;
+    await this.saveGame();
+
+    // The series game is played again
+    if (this.tournament) {
+      sendTournamentAction(this.node, {
+        type: "result",
+        tournamentId: this.tournament.id,
+        matchId: this.tournament.matchId,
+        roomId: this.id,
+        winnerUserId: null
+      }).catch(error => console.error("Error recording tournament result:", error));
+    }
+
+    this.node.io.to(this.id).emit("game_aborted", { message: `بازی لغو شد: ${message}`, gameState: this.gameState });
+    this.node.io.in(this.id).socketsLeave(this.id);
+    await dropRoom(this);
+  }
+
+  scheduleInviteExpiry() {
+    this.inviteTimer = setTimeout(() => {
+      this.node.io.to(this.id).emit("private_room_expired", {
+        message: "مهلت دعوت به پایان رسید",
+        code: this.inviteCode
+      });
+      this.node.io.in(this.id).socketsLeave(this.id);
+      dropRoom(this).catch(error => console.error("Error dropping expired room:", error));
+    }, PRIVATE_ROOM_EXPIRY);
+  }
+
+  addPlayer(player: Player) {
+    this.players.set(player.socketId, player);
+    this.updateActivityTime();
+  }
+
+  removePlayer(socketId: string) {
+    this.players.delete(socketId);
+    this.updateActivityTime();
+  }
+
+  isFull(): boolean {
+    return this.players.size >= 2;
+  }
+
+  // A room left with only a bot in it counts as empty
+  isEmpty(): boolean {
+    return !Array.from(this.players.values()).some(p => !p.isBot);
+  }
+
+  addSpectator(socketId: string) {
+    this.spectators.add(socketId);
+    this.broadcastSpectatorCount();
+  }
+
+  removeSpectator(socketId: string): boolean {
+    const removed = this.spectators.delete(socketId);
+    if (removed) this.broadcastSpectatorCount();
+    return removed;
+  }
+
+  broadcastSpectatorCount() {
+    this.gameState.spectatorCount = this.spectators.size;
+    this.node.io.to(this.id).emit("spectator_update", { spectatorCount: this.spectators.size });
+    this.persist();
+  }
+
+  isBotGame(): boolean {
+    return Array.from(this.players.values()).some(p => p.isBot);
+  }
+
+  getPlayerByNumber(playerNumber: PlayerNumber): Player | undefined {
+    return Array.from(this.players.values()).find(p => p.playerNumber === playerNumber);
+  }
+
+  findPlayerBySession(sessionToken?: string, userId?: string): Player | undefined {
+    return Array.from(this.players.values()).find(p =>
+      (sessionToken && p.sessionToken === sessionToken) ||
+      (userId && p.userId?.toString() === userId)
+    );
+  }
+
+  hasDisconnectedPlayers(): boolean {
+    return Array.from(this.players.values()).some(p => !p.connected);
+  }
+
+  // Holds the seat of a dropped player and pauses the clock until they rejoin
+  // or the grace period runs out, in which case the match ends as a forfeit.
+  markDisconnected(socketId: string) {
+    const player = this.players.get(socketId);
+    if (!player) return;
+
+    player.connected = false;
+    player.clearReconnectTimer();
+    this.stopTurnClock();
+    this.updateActivityTime();
+
+    player.reconnectTimer = setTimeout(() => {
+      player.reconnectTimer = undefined;
+      handlePlayerLeaving(this.node, player.socketId, this.id)
+        .catch(error => console.error("Error removing disconnected player:", error));
+    }, RECONNECT_GRACE_PERIOD);
+
+    this.node.io.to(this.id).emit("opponent_disconnected", {
+      message: `ارتباط ${player.username} قطع شد. در انتظار اتصال مجدد...`,
+      playerNumber: player.playerNumber,
+      gracePeriod: RECONNECT_GRACE_PERIOD / 1000
+    });
+    this.persist();
+  }
+
+  reconnectPlayer(player: Player, socketId: string) {
+    player.clearReconnectTimer();
+    this.players.delete(player.socketId);
+    player.socketId = socketId;
+    player.connected = true;
+    this.players.set(socketId, player);
+    this.updateActivityTime();
+    if (!this.hasDisconnectedPlayers()) this.clearRestoreTimer();
+
+    if (this.gameState.gameStatus === "active" && !this.gameState.isPaused && !this.hasDisconnectedPlayers()) {
+      this.runTurnClock();
+    }
+
+    this.node.io.to(this.id).emit("player_reconnected", {
+      message: `${player.username} دوباره به بازی متصل شد.`,
+      playerNumber: player.playerNumber,
+      gameState: this.gameState
+    });
+    this.persist();
+  }
+
+  updateActivityTime() {
+    this.lastActivityTime = Date.now();
+  }
+
+  isInactive(maxInactiveTime: number): boolean {
+    return Date.now() - this.lastActivityTime > maxInactiveTime;
+  }
+
+  clearTurnTimer() {
+    if (this.turnTimer) {
+      clearTimeout(this.turnTimer);
+      this.turnTimer = undefined;
+    }
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = undefined;
+    }
+    this.gameState.turnDeadline = null;
+  }
+
+  // Stops the clock, keeping what is left of the turn for when it runs again
+  stopTurnClock() {
+    const { turnDeadline, clocks, currentPlayer } = this.gameState;
+    if (turnDeadline !== null) {
+      this.gameState.timeLeft = Math.max(0, turnDeadline - Date.now()) / 1000;
+      if (clocks) this.gameState.clocks = { ...clocks, [`player${currentPlayer}`]: this.gameState.timeLeft };
+    }
+    this.clearTurnTimer();
+  }
+
+  // Time the player on turn starts with: a full turn, or their whole bank
+  turnAllowance(): number {
+    const { clocks, currentPlayer, settings } = this.gameState;
+    return clocks ? clocks[`player${currentPlayer}`] : settings.turnTime;
+  }
+
+  // Takes the time a move used from the mover's bank and adds the increment
+  chargeMove(mover: PlayerNumber) {
+    const { clocks, turnDeadline, settings } = this.gameState;
+    if (clocks && turnDeadline !== null) {
+      const left = Math.max(0, turnDeadline - Date.now()) / 1000;
+      this.gameState.clocks = { ...clocks, [`player${mover}`]: left + settings.increment };
+    }
+    this.clearTurnTimer();
+  }
+
+  clearPauseTimers() {
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = undefined;
+    }
+    if (this.pauseRequestTimer) {
+      clearTimeout(this.pauseRequestTimer);
+      this.pauseRequestTimer = undefined;
+    }
+  }
+
+  clearPauseRequest() {
+    if (this.pauseRequestTimer) {
+      clearTimeout(this.pauseRequestTimer);
+      this.pauseRequestTimer = undefined;
+    }
+    this.gameState.pause.requestedBy = null;
+    this.gameState.pause.requestExpiresAt = null;
+  }
+
+  // Asks the opponent to stop the clock. Only the player on turn can ask, and
+  // only while they have pauses left.
+  requestPause(player: Player) {
+    const { pause } = this.gameState;
+    if (this.gameState.gameStatus !== "active") throw new GameError("invalid_state", "بازی فعال نیست");
+    if (this.gameState.isPaused) throw new GameError("invalid_state", "بازی در حال حاضر متوقف است");
+    if (this.hasDisconnectedPlayers()) throw new GameError("invalid_state", "در انتظار اتصال مجدد حریف");
+    if (!player.playerNumber || player.playerNumber !== this.gameState.currentPlayer) {
+      throw new GameError("invalid_state", "فقط در نوبت خود می‌توانید درخواست توقف بدهید");
+    }
+    if (pause.requestedBy) throw new GameError("invalid_state", "یک درخواست توقف در انتظار پاسخ است");
+    if (pause.remaining[`player${player.playerNumber}`] <= 0) throw new GameError("invalid_state", "سهمیه توقف شما تمام شده است");
+
+    pause.requestedBy = player.playerNumber;
+
+    // Bots always agree
+    if (this.getPlayerByNumber(otherPlayer(player.playerNumber))?.isBot) {
+      this.pause();
+      return;
+    }
+
+    pause.requestExpiresAt = Date.now() + PAUSE_REQUEST_TIMEOUT;
+    this.pauseRequestTimer = setTimeout(() => {
+      this.pauseRequestTimer = undefined;
+      this.clearPauseRequest();
+      this.node.io.to(this.id).emit("pause_request_expired", { message: "درخواست توقف بی‌پاسخ ماند" });
+      this.persist();
+    }, PAUSE_REQUEST_TIMEOUT);
+
+    this.node.io.to(this.id).emit("pause_requested", {
+      playerNumber: player.playerNumber,
+      expiresAt: pause.requestExpiresAt,
+      message: `${player.username} درخواست توقف بازی را دارد`
+    });
+    this.persist();
+  }
+
+  respondToPause(player: Player, accept: boolean) {
+    const { requestedBy } = this.gameState.pause;
+    if (!requestedBy) throw new GameError("invalid_state", "درخواست توقفی وجود ندارد");
+    if (!player.playerNumber || player.playerNumber === requestedBy) {
+      throw new GameError("invalid_state", "فقط حریف می‌تواند به درخواست توقف پاسخ دهد");
+    }
+
+    if (!accept) {
+      this.clearPauseRequest();
+      this.node.io.to(this.id).emit("pause_declined", { message: `${player.username} درخواست توقف را نپذیرفت` });
+      this.persist();
+      return;
+    }
+
+    this.pause();
+  }
+
+  // Stops the clock for an agreed pause and charges it to whoever asked
+  pause() {
+    const pausedBy = this.gameState.pause.requestedBy;
+    if (!pausedBy) return;
+
+    this.clearPauseRequest();
+    this.gameState.pause.remaining[`player${pausedBy}`]--;
+    this.stopTurnClock();
+    this.gameState.isPaused = true;
+    this.gameState.pause.resumeAt = Date.now() + MAX_PAUSE_DURATION;
+    this.scheduleAutoResume();
+    this.updateActivityTime();
+
+    this.node.io.to(this.id).emit("game_paused", {
+      pausedBy,
+      resumeAt: this.gameState.pause.resumeAt,
+      gameState: this.gameState
+    });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+    this.persist();
+  }
+
+  scheduleAutoResume() {
+    const delay = Math.max(0, (this.gameState.pause.resumeAt ?? Date.now()) - Date.now());
+    this.pauseTimer = setTimeout(() => {
+      this.pauseTimer = undefined;
+      this.resumePlay();
+    }, delay);
+  }
+
+  // Either player can end a pause early; otherwise it ends at resumeAt
+  resumePlay() {
+    if (!this.gameState.isPaused) return;
+
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = undefined;
+    }
+    this.gameState.isPaused = false;
+    this.gameState.pause.resumeAt = null;
+    this.updateActivityTime();
+
+    if (this.gameState.gameStatus === "active" && !this.hasDisconnectedPlayers()) {
+      this.runTurnClock();
+    }
+
+    this.node.io.to(this.id).emit("game_resumed", { gameState: this.gameState });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+    this.persist();
+  }
+
+  // Pause timers don't travel with a snapshot: pending requests are dropped
+  // and a running pause gets its auto-resume back
+  restorePauseTimers() {
+    this.clearPauseTimers();
+    this.gameState.pause.requestedBy = null;
+    this.gameState.pause.requestExpiresAt = null;
+    if (this.gameState.isPaused) this.scheduleAutoResume();
+  }
+
+  // A move answers a pending pause request, as the player on turn has played on
+  withdrawPauseRequest() {
+    if (!this.gameState.pause.requestedBy) return;
+    this.clearPauseRequest();
+    this.node.io.to(this.id).emit("pause_request_expired", { message: "درخواست توقف با انجام حرکت لغو شد" });
+  }
+
+  releaseInviteCode() {
+    if (this.inviteTimer) {
+      clearTimeout(this.inviteTimer);
+      this.inviteTimer = undefined;
+    }
+    if (this.inviteCode) {
+      this.node.store.deleteInviteCode(this.inviteCode).catch(error => console.error("Error releasing invite code:", error));
+      this.inviteCode = undefined;
+    }
+  }
+
+  async submitMove(player: Player, move: MoveInput) {
+    if (!player.playerNumber) throw new GameError("not_in_room", "شما در این بازی نوبتی ندارید");
+
+    if (this.hasDisconnectedPlayers()) {
+      throw new GameError("invalid_state", "در انتظار اتصال مجدد حریف");
+    }
+    if (this.gameState.isPaused) {
+      throw new GameError("invalid_state", "بازی متوقف شده است");
+    }
+
+    const result = applyMove(this.gameState, {
+      start: move.start,
+      end: move.end,
+      player: player.playerNumber,
+      timestamp: new Date()
+    });
+    if (!result.ok) {
+      this.registerInvalidMove(player);
+      throw new GameError("invalid_move", MOVE_REJECTION_MESSAGES[result.reason]);
+    }
+
+    this.gameState = result.state;
+    this.chargeMove(player.playerNumber);
+    this.updateActivityTime();
+    this.withdrawPauseRequest();
+    this.expireDrawOffer(player.playerNumber);
+
+    if (this.gameState.gameStatus === "ended") {
+      this.gameState.endReason = "boxes_complete";
+      await this.endGame();
+    } else {
+      this.startTurnTimer();
+      this.checkpoint();
+    }
+
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+    this.persist();
+  }
+
+  registerInvalidMove(player: Player) {
+    const now = Date.now();
+    player.invalidMoveTimes = player.invalidMoveTimes.filter(time => now - time < INVALID_MOVE_WINDOW);
+    player.invalidMoveTimes.push(now);
+
+    if (player.invalidMoveTimes.length >= INVALID_MOVE_LIMIT && player.playerNumber) {
+      player.invalidMoveTimes = [];
+      this.issueCard(player.playerNumber, "yellow", "invalid_moves");
+    }
+  }
+
+  // Reaching the yellow limit turns into a red card, and a red card forfeits the match
+  issueCard(playerNumber: PlayerNumber, type: CardType, reason: CardReason) {
+    if (this.gameState.gameStatus !== "active") return;
+
+    const warnings = this.gameState.warnings[`player${playerNumber}`];
+    const player = this.getPlayerByNumber(playerNumber);
+    const card: Card = { playerNumber, type, reason, timestamp: new Date() };
+
+    if (type === "yellow") {
+      warnings.yellow++;
+    } else {
+      warnings.red++;
+    }
+    this.cards.push(card);
+    if (player) this.recordCardStats(player, type);
+
+    this.node.io.to(this.id).emit("card_issued", {
+      ...card,
+      message: `${type === "yellow" ? "کارت زرد" : "کارت قرمز"} برای ${player?.username ?? `بازیکن ${playerNumber}`}: ${CARD_REASON_MESSAGES[reason]}`,
+      warnings: this.gameState.warnings
+    });
+
+    if (type === "yellow" && warnings.yellow >= MAX_YELLOW_CARDS) {
+      warnings.yellow = 0;
+      this.issueCard(playerNumber, "red", reason);
+      return;
+    }
+
+    if (type === "red" && warnings.red >= MAX_RED_CARDS) {
+      this.clearTurnTimer();
+      this.gameState.gameStatus = "ended";
+      this.gameState.winner = playerNumber === 1 ? 2 : 1;
+      this.gameState.endReason = "red_card";
+      this.endGame();
+      this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+    }
+  }
+
+  // Returns false when the game had already ended
+  forceEnd(winner: PlayerNumber | null, reason: EndReason, message: string): boolean {
+    if (this.gameState.gameStatus === "ended") return false;
+
+    this.finish(winner, reason);
+    this.node.io.to(this.id).emit("game_force_ended", { message, gameState: this.gameState });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+    return true;
+  }
+
+  // Ends the game early with `winner`, or as a draw when it is null
+  finish(winner: PlayerNumber | null, reason: EndReason) {
+    this.stopTurnClock();
+    this.gameState.gameStatus = "ended";
+    this.gameState.winner = winner;
+    this.gameState.endReason = reason;
+    this.endGame();
+  }
+
+  resign(player: Player) {
+    if (this.gameState.gameStatus !== "active") throw new GameError("invalid_state", "بازی فعال نیست");
+    if (!player.playerNumber) throw new GameError("not_in_room", "شما در این بازی نوبتی ندارید");
+
+    this.finish(otherPlayer(player.playerNumber), "resigned");
+    this.node.io.to(this.id).emit("player_resigned", {
+      playerNumber: player.playerNumber,
+      message: `${player.username} تسلیم شد.`,
+      gameState: this.gameState
+    });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+  }
+
+  // Each player may offer a draw once every DRAW_OFFER_MOVE_INTERVAL moves
+  offerDraw(player: Player) {
+    const { drawOffer } = this.gameState;
+    if (this.gameState.gameStatus !== "active") throw new GameError("invalid_state", "بازی فعال نیست");
+    if (!player.playerNumber) throw new GameError("not_in_room", "شما در این بازی نوبتی ندارید");
+    if (this.isBotGame()) throw new GameError("invalid_state", "ربات پیشنهاد تساوی را نمی‌پذیرد");
+    if (drawOffer.offeredBy) throw new GameError("invalid_state", "یک پیشنهاد تساوی در انتظار پاسخ است");
+
+    const key = `player${player.playerNumber}` as const;
+    const lastOffer = drawOffer.lastOfferedAt[key];
+    const movesSince = this.gameState.lines.length - (lastOffer ?? 0);
+    if (lastOffer !== null && movesSince < DRAW_OFFER_MOVE_INTERVAL) {
+      throw new GameError("rate_limited", `پیشنهاد تساوی بعدی پس از ${DRAW_OFFER_MOVE_INTERVAL - movesSince} حرکت ممکن است`);
+    }
+
+    drawOffer.offeredBy = player.playerNumber;
+    drawOffer.lastOfferedAt[key] = this.gameState.lines.length;
+    this.updateActivityTime();
+
+    this.node.io.to(this.id).emit("draw_offered", {
+      playerNumber: player.playerNumber,
+      message: `${player.username} پیشنهاد تساوی داد`
+    });
+    this.persist();
+  }
+
+  respondToDraw(player: Player, accept: boolean) {
+    const { offeredBy } = this.gameState.drawOffer;
+    if (!offeredBy) throw new GameError("invalid_state", "پیشنهاد تساوی وجود ندارد");
+    if (!player.playerNumber || player.playerNumber === offeredBy) {
+      throw new GameError("invalid_state", "فقط حریف می‌تواند به پیشنهاد تساوی پاسخ دهد");
+    }
+
+    this.gameState.drawOffer.offeredBy = null;
+    if (!accept) {
+      this.node.io.to(this.id).emit("draw_declined", { message: `${player.username} پیشنهاد تساوی را نپذیرفت` });
+      this.persist();
+      return;
+    }
+
+    this.finish(null, "draw_agreed");
+    this.node.io.to(this.id).emit("draw_agreed", { message: "بازی با توافق مساوی شد", gameState: this.gameState });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+  }
+
+  // Playing on instead of answering turns down the opponent's draw offer
+  expireDrawOffer(mover: PlayerNumber) {
+    const { offeredBy } = this.gameState.drawOffer;
+    if (!offeredBy || offeredBy === mover) return;
+    this.gameState.drawOffer.offeredBy = null;
+    this.node.io.to(this.id).emit("draw_declined", { message: "پیشنهاد تساوی با انجام حرکت رد شد" });
+  }
+
+  async recordCardStats(player: Player, type: CardType) {
+    // Like ratings, cards from games against the computer stay off the record
+    if (!player.userId || this.isBotGame()) return;
+    try {
+      await User.findByIdAndUpdate(player.userId, {
+        $inc: { [`statistics.${type === "yellow" ? "yellowCards" : "redCards"}`]: 1 }
+      });
+    } catch (error) {
+      console.error("Error recording card:", error);
+    }
+  }
+
+  // Plays the bot's turn through submitMove, just like a human's make_move
+  scheduleBotMove() {
+    const bot = this.getPlayerByNumber(this.gameState.currentPlayer);
+    if (!bot?.isBot || !bot.botLevel || this.gameState.gameStatus !== "active") return;
+
+    const level = bot.botLevel;
+    this.botTimer = setTimeout(async () => {
+      this.botTimer = undefined;
+      const { width, height } = this.gameState.settings;
+      const move = chooseBotMove(this.gameState.lines, height + 1, width + 1, this.gameState.currentPlayer, level);
+      if (!move) return;
+
+      try {
+        await this.submitMove(bot, move);
+      } catch (error: any) {
+        console.error('Bot move error:', error.message);
+      }
+    }, BOT_MOVE_DELAY);
+  }
+
+  makeRandomMove() {
+    const availableMoves = getAvailableMoves(this.gameState);
+    if (availableMoves.length === 0) return null;
+
+    const timedOutPlayer = this.gameState.currentPlayer;
+    const randomMoveIndex = Math.floor(Math.random() * availableMoves.length);
+    const randomMove = availableMoves[randomMoveIndex];
+    randomMove.timestamp = new Date();
+
+    const result = applyMove(this.gameState, randomMove);
+    if (!result.ok) return null;
+
+    this.gameState = result.state;
+    this.updateActivityTime();
+    this.withdrawPauseRequest();
+    this.expireDrawOffer(timedOutPlayer);
+
+    if (this.gameState.gameStatus === "ended") {
+      this.gameState.endReason = "boxes_complete";
+      this.endGame();
+    } else {
+      this.checkpoint();
+    }
+    this.persist();
+
+    this.node.io.to(this.id).emit("random_move_played", {
+      move: randomMove,
+      message: `زمان بازیکن ${timedOutPlayer} به پایان رسید. یک حرکت تصادفی انجام شد.`
+    });
+
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+
+    return randomMove;
+  }
+
+  // Starts a new turn for the player on turn
+  startTurnTimer() {
+    this.gameState.timeLeft = this.turnAllowance();
+    this.runTurnClock();
+  }
+
+  /**
+   * Runs the clock for whatever is left of the current turn. Clients get the
+   * absolute deadline once and count down locally.
+   */
+  runTurnClock() {
+    this.clearTurnTimer();
+
+    const now = Date.now();
+    this.gameState.turnDeadline = now + this.gameState.timeLeft * 1000;
+    this.node.io.to(this.id).emit("timer_update", {
+      turnDeadline: this.gameState.turnDeadline,
+      timeLeft: this.gameState.timeLeft,
+      turnTime: this.gameState.settings.turnTime,
+      clocks: this.gameState.clocks,
+      serverTime: now
+    });
+
+    this.turnTimer = setTimeout(() => {
+      this.turnTimer = undefined;
+      this.stopTurnClock();
+      if (this.gameState.gameStatus !== "active") return;
+
+      const timedOutPlayer = this.gameState.currentPlayer;
+      if (this.gameState.clocks) {
+        this.loseOnTime(timedOutPlayer);
+        return;
+      }
+
+      this.makeRandomMove();
+      this.issueCard(timedOutPlayer, "yellow", "timeout");
+
+      if (this.gameState.gameStatus === "active") {
+        this.startTurnTimer();
+      }
+    }, this.gameState.timeLeft * 1000);
+
+    this.scheduleBotMove();
+  }
+
+  loseOnTime(playerNumber: PlayerNumber) {
+    const player = this.getPlayerByNumber(playerNumber);
+    this.finish(otherPlayer(playerNumber), "timeout");
+
+    this.node.io.to(this.id).emit("time_expired", {
+      playerNumber,
+      message: `زمان ${player?.username ?? `بازیکن ${playerNumber}`} به پایان رسید و بازی را باخت.`
+    });
+    this.node.io.to(this.id).emit("game_update", { gameState: this.gameState });
+  }
+
+  // Finalizes the Game document, even with a seat already empty, so a
+  // restart doesn't bring the match back
+  async saveGame() {
+    try {
+      const bot = Array.from(this.players.values()).find(p => p.isBot);
+
+      interface GameData {
+        roomId: string;
+        startedAt: Date;
+        endedAt: Date;
+        vsBot: boolean;
+        aborted: boolean;
+        botLevel?: BotLevel;
+        settings: RoomSettings;
+        cards: Card[];
+        players: {
+          userId?: mongoose.Types.ObjectId;
+          playerNumber: number;
+          username: string;
+          phone?: string;
+          ref?: string;
+        }[];
+        gameState: {
+          lines: Line[];
+          boxes: Box[];
+          scores: { player1: number; player2: number };
+          winner: PlayerNumber | null;
+          endReason: EndReason | null;
+          clocks: { player1: number; player2: number } | null;
+          duration: number;
+        };
+      }
+
+      const gameData: GameData = {
+        roomId: this.id,
+        startedAt: this.gameStartTime,
+        endedAt: new Date(),
+        vsBot: this.isBotGame(),
+        aborted: this.aborted,
+        botLevel: bot?.botLevel,
+        settings: this.gameState.settings,
+        cards: this.cards,
+        players: this.playersData(),
+        gameState: {
+          lines: this.gameState.lines,
+          boxes: this.gameState.boxes,
+          scores: this.gameState.scores,
+          winner: this.gameState.winner,
+          endReason: this.gameState.endReason,
+          clocks: this.gameState.clocks,
+          duration: (new Date().getTime() - this.gameStartTime.getTime()) / 1000 // duration in seconds
+        }
+      };
+
+      // The record normally exists since match start; upsert in case creating it failed
+      await Game.updateOne(
+        { roomId: this.id },
+        { $set: gameData, $unset: { checkpoint: 1, checkpointedAt: 1 } },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error("Error saving game:", error);
+    }
+  }
+
+  playersData() {
+    return ([1, 2] as PlayerNumber[]).flatMap(playerNumber => {
+      const player = this.getPlayerByNumber(playerNumber);
+      if (!player) return [];
+      return [{
+        userId: player.userId,
+        playerNumber,
+        username: player.username,
+        phone: player.phone,
+        ref: player.ref
+      }];
+    });
+  }
+
+  // Creates the Game document as soon as the match starts so chat has somewhere to go
+  async createGameRecord() {
+    try {
+      const bot = Array.from(this.players.values()).find(p => p.isBot);
+      await Game.create({
+        roomId: this.id,
+        startedAt: this.gameStartTime,
+        vsBot: !!bot,
+        botLevel: bot?.botLevel,
+        series: {
+          id: this.series.id,
+          gameNumber: this.series.gameNumber,
+          previousRoomId: this.series.previousRoomId
+        },
+        tournament: this.tournament,
+        settings: this.gameState.settings,
+        players: this.playersData(),
+        checkpoint: this.toSnapshot(),
+        checkpointedAt: new Date()
+      });
+    } catch (error) {
+      console.error("Error creating game record:", error);
+    }
+  }
+
+  // Writes the room to its Game document after each move so it survives a restart
+  async checkpoint() {
+    try {
+      await Game.updateOne({ roomId: this.id }, {
+        $set: {
+          checkpoint: this.toSnapshot(),
+          checkpointedAt: new Date(),
+          "gameState.lines": this.gameState.lines,
+          "gameState.boxes": this.gameState.boxes,
+          "gameState.scores": this.gameState.scores
+        }
+      });
+    } catch (error) {
+      console.error("Error checkpointing game:", error);
+    }
+  }
+
+  async updatePlayerStats() {
+    try {
+      if (this.gameState.gameStatus !== "ended") return;
+
+      // Games against the computer are saved but never rated
+      if (this.isBotGame()) return;
+      
+      const player1 = this.getPlayerByNumber(1);
+      const player2 = this.getPlayerByNumber(2);
+
+      if (!player1?.userId || !player2?.userId) return;
+
+      const [user1, user2] = await Promise.all([
+        User.findById(player1.userId),
+        User.findById(player2.userId)
+      ]);
+      const ratings = calculateRatings(
+        user1?.statistics?.rating ?? DEFAULT_RATING,
+        user2?.statistics?.rating ?? DEFAULT_RATING,
+        this.gameState.winner
+      );
+
+      // Update player 1 stats
+      await User.findByIdAndUpdate(player1.userId, {
+        $set: { "statistics.rating": ratings.player1 },
+        $inc: {
+          "statistics.totalGames": 1,
+          "statistics.wins": this.gameState.winner === 1 ? 1 : 0,
+          "statistics.losses": this.gameState.winner === 2 ? 1 : 0,
+          "statistics.draws": this.gameState.winner === null ? 1 : 0,
+          "statistics.totalScore": this.gameState.scores.player1,
+          ...this.endReasonStats(1)
+        }
+      });
+
+      // Update player 2 stats
+      await User.findByIdAndUpdate(player2.userId, {
+        $set: { "statistics.rating": ratings.player2 },
+        $inc: {
+          "statistics.totalGames": 1,
+          "statistics.wins": this.gameState.winner === 2 ? 1 : 0,
+          "statistics.losses": this.gameState.winner === 1 ? 1 : 0,
+          "statistics.draws": this.gameState.winner === null ? 1 : 0,
+          "statistics.totalScore": this.gameState.scores.player2,
+          ...this.endReasonStats(2)
+        }
+      });
+
+      await checkReferralReward(player1.userId);
+      await checkReferralReward(player2.userId);
+
+    } catch (error) {
+      console.error("Error updating player stats:", error);
+    }
+  }
+
+  endReasonStats(playerNumber: PlayerNumber): Record<string, number> {
+    const { winner, endReason } = this.gameState;
+    if (endReason === "draw_agreed") return { "statistics.agreedDraws": 1 };
+
+    const field = endReason ? LOSS_REASON_STATS[endReason] : undefined;
+    return field && winner !== null && winner !== playerNumber ? { [field]: 1 } : {};
+  }
+
+  endGame() {
+    const firstResult = !this.resultRecorded;
+    this.gameState.drawOffer.offeredBy = null;
+    this.clearPauseTimers();
+    this.clearPauseRequest();
+    this.gameState.isPaused = false;
+    this.gameState.pause.resumeAt = null;
+    this.recordSeriesResult();
+    this.saveGame();
+    this.updatePlayerStats();
+    this.persist();
+
+    if (this.tournament && firstResult) {
+      const winner = this.gameState.winner ? this.getPlayerByNumber(this.gameState.winner) : undefined;
+      sendTournamentAction(this.node, {
+        type: "result",
+        tournamentId: this.tournament.id,
+        matchId: this.tournament.matchId,
+        roomId: this.id,
+        winnerUserId: winner?.userId?.toString() ?? null
+      }).catch(error => console.error("Error recording tournament result:", error));
+    }
+  }
+
+  recordSeriesResult() {
+    if (this.resultRecorded) return;
+    this.resultRecorded = true;
+
+    const winner = this.gameState.winner ? this.getPlayerByNumber(this.gameState.winner) : undefined;
+    if (winner) {
+      this.series.wins.set(winner.sessionToken, (this.series.wins.get(winner.sessionToken) ?? 0) + 1);
+    } else {
+      this.series.draws++;
+    }
+    this.refreshSeriesScore();
+  }
+
+  // Mirrors the series tally into the game state from the current seats' point of view
+  refreshSeriesScore() {
+    const winsOf = (playerNumber: PlayerNumber) => {
+      const player = this.getPlayerByNumber(playerNumber);
+      return player ? this.series.wins.get(player.sessionToken) ?? 0 : 0;
+    };
+
+    this.gameState.series = {
+      id: this.series.id,
+      gameNumber: this.series.gameNumber,
+      wins: { player1: winsOf(1), player2: winsOf(2) },
+      draws: this.series.draws
+    };
+  }
+
+  clearRematchOffer() {
+    if (this.rematchOffer) {
+      clearTimeout(this.rematchOffer.timer);
+      this.rematchOffer = undefined;
+    }
+  }
+}
+
+async function handlePlayerLeaving(node: GameNode, socketId: string, roomId: string): Promise<boolean> {
+  const room = node.rooms.get(roomId);
+  if (!room) return false;
+
+  // Spectators come and go without affecting the match
+  if (room.removeSpectator(socketId)) {
+    node.io.in(socketId).socketsLeave(roomId);
+    return true;
+  }
+  if (!room.players.has(socketId)) return false;
+
+  const player = room.players.get(socketId);
+  player?.clearReconnectTimer();
+
+  if (room.rematchOffer) {
+    room.clearRematchOffer();
+    node.io.to(roomId).emit("rematch_cancelled", { message: "حریف اتاق را ترک کرد" });
+  }
+
+  // The leaver keeps their seat until the game is over, so the forfeit is
+  // saved and counted in both players' statistics
+  if (room.gameState.gameStatus === "active") {
+    room.stopTurnClock();
+    room.gameState.gameStatus = "ended";
+    room.gameState.endReason = "abandoned";
+    if (player?.playerNumber) {
+      room.gameState.winner = otherPlayer(player.playerNumber);
+    }
+
+    room.clearTurnTimer();
+    await room.endGame();
+
+    // Walking out of a tournament game gives up the whole series
+    if (room.tournament && player?.userId) {
+      await sendTournamentAction(node, { type: "forfeit", tournamentId: room.tournament.id, userId: player.userId.toString() });
+    }
+  }
+
+  room.removePlayer(socketId);
+
+  // Nobody is coming back to a finished match, so drop seats still held for reconnects
+  if (room.gameState.gameStatus === "ended") {
+    for (const [id, p] of room.players.entries()) {
+      if (!p.connected) {
+        p.clearReconnectTimer();
+        room.removePlayer(id);
+      }
+    }
+  }
+
+  if (player) {
+    node.io.to(roomId).emit("player_left", { 
+      message: `${player.username} از بازی خارج شده است.`,
+      gameState: room.gameState
+    });
+  }
+
+  if (room.isEmpty()) {
+    await dropRoom(room);
+  } else {
+    room.persist();
+  }
+
+  return true;
+}
+
+// Checks the shared queue and rooms, since the socket may be seated on another node
+async function isSocketBusy(node: GameNode, socketId: string): Promise<string | null> {
+  const queue = await node.store.listQueue();
+  if (queue.some(p => p.socketId === socketId)) {
+    return "شما قبلا در صف هستید";
+  }
+  // A finished game doesn't hold its players, see leaveEndedRooms
+  const rooms = await node.store.listRooms();
+  if (rooms.some(room => room.gameState.gameStatus !== "ended" && room.players.some(p => p.socketId === socketId))) {
+    return "شما قبلا در یک اتاق هستید";
+  }
+  return null;
+}
+
+// Players may move on from a finished game without leaving its room; their
+// seat there is given up once they start playing elsewhere
+async function leaveEndedRooms(node: GameNode, socketId: string) {
+  for (const room of Array.from(node.rooms.values())) {
+    if (room.gameState.gameStatus !== "ended" || !room.players.has(socketId)) continue;
+    node.io.in(socketId).socketsLeave(room.id);
+    await handlePlayerLeaving(node, socketId, room.id);
+  }
+}
+
+// Loads the account behind an authenticated socket; guests play without one
+async function loadSessionUser(userId: string | undefined, username: string) {
+  if (!userId) return undefined;
+
+  const user = await User.findByIdAndUpdate(userId, { 
+    lastLogin: new Date(),
+    $set: { username } // Update username if needed
+  }, { new: true });
+  if (!user) throw new GameError("unauthenticated", "نشست شما معتبر نیست، دوباره وارد شوید");
+  assertNotBanned(user);
+  return user;
+}
+
+function createHumanPlayer(username: string, socketId: string, user: Awaited<ReturnType<typeof loadSessionUser>>): Player {
+  const player = new Player(
+    username, 
+    socketId, 
+    null, 
+    user?._id, 
+    user?.phone,
+    user?.ref,
+    user?.statistics?.rating ?? DEFAULT_RATING
+  );
+  player.mutedUntil = user?.mutedUntil;
+  return player;
+}
+
+function summarizeRoom(room: RoomSnapshot): RoomSummary {
+  return {
+    roomId: room.id,
+    node: room.ownerId,
+    status: room.gameState.gameStatus,
+    players: room.players.map(p => ({
+      username: p.username,
+      userId: p.userId,
+      playerNumber: p.playerNumber,
+      connected: p.connected,
+      isBot: p.isBot
+    })),
+    scores: room.gameState.scores,
+    spectatorCount: room.spectators.length,
+    startedAt: new Date(room.gameStartTime),
+    lastActivityTime: new Date(room.lastActivityTime)
+  };
+}
+
+// Pairs queued players whose ratings are close enough. Each player's window
+// widens the longer they wait, so nobody is stuck in the queue forever.
+async function processMatchmakingQueue(node: GameNode) {
+  // The queue is shared, so only the node holding the lease pairs players
+  if (!(await node.store.acquireLease(MATCHMAKING_LEASE, node.id, LEASE_TTL))) return;
+
+  const now = Date.now();
+  const pairs: [Player, Player][] = [];
+  const matchmakingQueue = (await node.store.listQueue())
+    .map(Player.fromSnapshot)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+
+  for (let i = 0; i < matchmakingQueue.length; i++) {
+    const player = matchmakingQueue[i];
+    let bestIndex = -1;
+    let bestGap = Infinity;
+
+    for (let j = i + 1; j < matchmakingQueue.length; j++) {
+      const candidate = matchmakingQueue[j];
+      if (settingsKey(candidate.settings) !== settingsKey(player.settings)) continue;
+      // One account queued from two tabs must not play itself
+      if (player.userId && candidate.userId?.equals(player.userId)) continue;
+
+      const gap = Math.abs(player.rating - candidate.rating);
+      const allowedGap = Math.max(
+        allowedRatingGap(now - player.queuedAt),
+        allowedRatingGap(now - candidate.queuedAt)
+      );
+
+      if (gap <= allowedGap && gap < bestGap) {
+        bestIndex = j;
+        bestGap = gap;
+      }
+    }
+
+    if (bestIndex !== -1) {
+      const [opponent] = matchmakingQueue.splice(bestIndex, 1);
+      matchmakingQueue.splice(i, 1);
+      pairs.push([player, opponent]);
+      i--;
+    }
+  }
+
+  for (const [player1, player2] of pairs) {
+    // Either player may have left the queue since it was read
+    const [left1, left2] = await Promise.all([node.store.dequeue(player1.socketId), node.store.dequeue(player2.socketId)]);
+    if (!left1 || !left2) {
+      if (left1) await node.store.enqueue(player1.toSnapshot());
+      if (left2) await node.store.enqueue(player2.toSnapshot());
+      continue;
+    }
+    await createAndJoinRoom([player1, player2], node, new Room(node, uuidv4(), player1.settings));
+  }
+}
+
+async function estimateQueueWait(node: GameNode, player: Player): Promise<number | null> {
+  const key = settingsKey(player.settings);
+  const queue = await node.store.listQueue();
+  const others = queue.filter(p =>
+    p.socketId !== player.socketId &&
+    settingsKey(p.settings) === key &&
+    !(player.userId && p.userId === player.userId.toString())
+  );
+  if (others.length === 0) return null;
+
+  const closestGap = Math.min(...others.map(p => Math.abs(p.rating - player.rating)));
+  return estimateWaitForGap(closestGap);
+}
+
+async function reserveInviteCode(node: GameNode, roomId: string): Promise<string> {
+  let code: string;
+  do {
+    code = "";
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)];
+    }
+  } while (!(await node.store.reserveInviteCode(code, roomId, PRIVATE_ROOM_EXPIRY)));
+  return code;
+}
+
+async function createPrivateRoom(host: Player, node: GameNode, settings: RoomSettings): Promise<Room> {
+  await leaveEndedRooms(node, host.socketId);
+  const room = new Room(node, uuidv4(), settings);
+  host.playerNumber = 1;
+  room.addPlayer(host);
+  room.gameState.playerNames.player1 = host.username;
+  room.inviteCode = await reserveInviteCode(node, room.id);
+  room.scheduleInviteExpiry();
+
+  await registerRoom(room);
+  node.io.in(host.socketId).socketsJoin(room.id);
+  return room;
+}
+
+// Claims the room for this node and publishes it to the other nodes
+async function registerRoom(room: Room) {
+  const { node } = room;
+  node.rooms.set(room.id, room);
+  await node.store.acquireLease(roomLeaseKey(room.id), node.id, LEASE_TTL);
+  await node.store.saveRoom(room.toSnapshot());
+}
+
+async function dropRoom(room: Room) {
+  const { node } = room;
+  room.dispose();
+  room.releaseInviteCode();
+  node.rooms.delete(room.id);
+  await node.store.deleteRoom(room.id);
+  await node.store.releaseLease(roomLeaseKey(room.id), node.id);
+}
+
+function roomLeaseKey(roomId: string): string {
+  return `room:${roomId}`;
+}
+
+async function createAndJoinRoom(players: Player[], node: GameNode, room: Room = new Room(node, uuidv4())) {
+  const roomId = room.id;
+  room.releaseInviteCode();
+  for (const player of players) {
+    if (!player.isBot) await leaveEndedRooms(node, player.socketId);
+  }
+
+  players.forEach((player, index) => {
+    player.playerNumber = (index + 1) as PlayerNumber;
+    room.addPlayer(player);
+    node.io.in(player.socketId).socketsJoin(roomId);
+  });
+
+  if (players[0]) room.gameState.playerNames.player1 = players[0].username;
+  if (players[1]) room.gameState.playerNames.player2 = players[1].username;
+  room.refreshSeriesScore();
+
+  room.gameState.gameStatus = "active";
+  room.gameStartTime = new Date();
+  room.startTurnTimer();
+
+  await registerRoom(room);
+  await room.createGameRecord();
+
+  // Sent to each seat on its own so players learn which side they are
+  for (const player of players) {
+    node.io.to(player.socketId).emit("start_game", {
+      gameState: room.gameState,
+      playerNames: room.gameState.playerNames,
+      roomId,
+      playerNumber: player.playerNumber
+    });
+  }
+}
+
+// Starts the next game of a series in a fresh room with the same two players
+// Either player may have queued or started another game since this one ended
+async function assertRematchPossible(node: GameNode, room: Room) {
+  for (const player of room.players.values()) {
+    if (!player.isBot && await isSocketBusy(node, player.socketId)) {
+      throw new GameError("busy", "یکی از بازیکنان در صف یا بازی دیگری است");
+    }
+  }
+}
+
+async function startRematch(node: GameNode, previous: Room, swapFirst: boolean) {
+  const player1 = previous.getPlayerByNumber(1);
+  const player2 = previous.getPlayerByNumber(2);
+  if (!player1 || !player2) throw new GameError("invalid_state", "حریف دیگر در اتاق نیست");
+
+  const room = new Room(node, uuidv4(), previous.gameState.settings);
+  room.series = {
+    id: previous.series.id,
+    gameNumber: previous.series.gameNumber + 1,
+    previousRoomId: previous.id,
+    wins: new Map(previous.series.wins),
+    draws: previous.series.draws
+  };
+
+  for (const player of [player1, player2]) {
+    node.io.in(player.socketId).socketsLeave(previous.id);
+  }
+  await dropRoom(previous);
+
+  const order = swapFirst ? [player2, player1] : [player1, player2];
+  await createAndJoinRoom(order.map(p => p.cloneForRematch()), node, room);
+}
+
+// Seats the two players of a bracket match in a normal room for the next game of their series
+async function startTournamentGame(node: GameNode, tournamentId: string, match: BracketMatch, seats: TournamentSeat[], settings: RoomSettings) {
+  const players: Player[] = [];
+
+  for (const seat of seats) {
+    const sockets = await node.io.in(seat.socketId).fetchSockets();
+    const user = sockets.length > 0 ? await loadSessionUser(seat.userId, seat.username).catch(() => undefined) : undefined;
+    if (!user || await isSocketBusy(node, seat.socketId)) {
+      // Queued behind the ready check that is calling us, so not awaited
+      node.tournaments.forfeit(tournamentId, seat.userId)
+        .catch(error => console.error("Tournament forfeit error:", error));
+      return;
+    }
+    players.push(createHumanPlayer(seat.username, seat.socketId, user));
+  }
+
+  const room = new Room(node, uuidv4(), settings);
+  const seriesId = `${tournamentId}:${match.id}`;
+  const playerFor = (userId: string | null) => players.find(p => p.userId?.toString() === userId);
+  room.tournament = { id: tournamentId, matchId: match.id };
+  room.series = {
+    id: seriesId,
+    gameNumber: match.games.length + 1,
+    previousRoomId: match.games[match.games.length - 1],
+    wins: new Map([
+      [playerFor(match.player1)?.sessionToken ?? "", match.wins.player1],
+      [playerFor(match.player2)?.sessionToken ?? "", match.wins.player2]
+    ]),
+    draws: 0
+  };
+
+  await createAndJoinRoom(players, node, room);
+}
+
+// A lone node has nobody to tell, and its adapter can't relay anyway. A
+// closed node stays quiet, or the others would count it as back.
+function notifyNodes<E extends keyof InterServerEvents>(node: GameNode, event: E, ...args: Parameters<InterServerEvents[E]>) {
+  if (node.clustered && !node.closed) node.io.serverSideEmit(event, ...args);
+}
+
+type TournamentAction =
+  | { type: "result"; tournamentId: string; matchId: string; roomId: string; winnerUserId: string | null }
+  | { type: "forfeit"; tournamentId: string; userId: string };
+
+function applyTournamentAction(node: GameNode, action: TournamentAction) {
+  return action.type === "result"
+    ? node.tournaments.recordGameResult(action.tournamentId, action.matchId, action.roomId, action.winnerUserId)
+    : node.tournaments.forfeit(action.tournamentId, action.userId);
+}
+
+// Brackets are only changed by the node holding the tournaments lease
+async function sendTournamentAction(node: GameNode, action: TournamentAction) {
+  const owner = await node.store.leaseOwner(TOURNAMENTS_LEASE);
+  if (!owner || owner === node.id) {
+    await applyTournamentAction(node, action);
+  } else {
+    notifyNodes(node, "tournament_action", owner, action);
+  }
+}
+
+// Brings back matches that were running when their node went down for good,
+// such as on a deploy. Rooms another node still runs are left alone.
+async function restoreCheckpointedRooms(node: GameNode) {
+  const games = await Game.find({ checkpointedAt: { $exists: true }, endedAt: { $exists: false } })
+    .select("checkpoint")
+    .lean<any[]>();
+
+  let restored = 0;
+  for (const game of games) {
+    const snapshot: RoomSnapshot | undefined = game.checkpoint;
+    if (snapshot?.gameState?.gameStatus !== "active") continue;
+    if (await node.store.getRoom(snapshot.id)) continue;
+    if (!(await node.store.acquireLease(roomLeaseKey(snapshot.id), node.id, LEASE_TTL))) continue;
+
+    const room = Room.fromSnapshot(node, snapshot);
+    await registerRoom(room);
+    room.awaitReturningPlayers();
+    restored++;
+  }
+
+  if (restored > 0) console.log(`Restored ${restored} unfinished games`);
+}
+
+// Keeps the leases of rooms run here alive and takes over rooms whose node
+// stopped renewing theirs
+async function maintainRoomLeases(node: GameNode) {
+  for (const room of Array.from(node.rooms.values())) {
+    if (await node.store.acquireLease(roomLeaseKey(room.id), node.id, LEASE_TTL)) {
+      room.persist();
+      continue;
+    }
+    // Another node already took the room over, so stop running it here
+    room.dispose();
+    node.rooms.delete(room.id);
+  }
+
+  for (const snapshot of await node.store.listRooms()) {
+    if (node.rooms.has(snapshot.id)) continue;
+    if (!(await node.store.acquireLease(roomLeaseKey(snapshot.id), node.id, LEASE_TTL))) continue;
+
+    // The owner may have closed the room between listing and taking the lease
+    const latest = await node.store.getRoom(snapshot.id);
+    if (!latest) {
+      await node.store.releaseLease(roomLeaseKey(snapshot.id), node.id);
+      continue;
+    }
+
+    console.log(`Taking over room ${latest.id} from node ${latest.ownerId}`);
+    const room = Room.fromSnapshot(node, latest);
+    node.rooms.set(room.id, room);
+    try {
+      await room.resume();
+    } catch (error) {
+      // Give the room up so the next check, here or on another node, tries again
+      console.error(`Error taking over room ${room.id}:`, error);
+      room.dispose();
+      node.rooms.delete(room.id);
+      await node.store.releaseLease(roomLeaseKey(room.id), node.id);
+    }
+  }
+}
+
+async function maintainTournamentsLease(node: GameNode) {
+  const holds = await node.store.acquireLease(TOURNAMENTS_LEASE, node.id, LEASE_TTL);
+  if (holds && !node.runsTournaments) await node.tournaments.restore();
+  node.runsTournaments = holds;
+}
+
+// Finds the room a returning player is seated in, on whichever node runs it
+async function findRoomForSession(node: GameNode, sessionToken?: string, userId?: string): Promise<RoomSnapshot | undefined> {
+  const rooms = await node.store.listRooms();
+  return rooms.find(room => room.players.some(p =>
+    !p.connected && ((sessionToken && p.sessionToken === sessionToken) || (userId && p.userId === userId))
+  ));
+}
+
+async function handleSocketDisconnect(node: GameNode, socketId: string) {
+  for (const [roomId, room] of node.rooms.entries()) {
+    room.removeSpectator(socketId);
+    if (!room.players.has(socketId)) continue;
+
+    if (room.gameState.gameStatus === "active") {
+      room.markDisconnected(socketId);
+    } else {
+      await handlePlayerLeaving(node, socketId, roomId);
+    }
+  }
+}
+
+function applyMuteToRooms(node: GameNode, userId: string, until: Date | null) {
+  for (const room of node.rooms.values()) {
+    for (const player of room.players.values()) {
+      if (player.userId?.toString() === userId) player.mutedUntil = until ?? undefined;
+    }
+  }
+}
+
+interface ForwardedEvent {
+  nodeId: string;
+  event: string;
+  socketId: string;
+  userId?: string;
+  payload: any;
+}
+
+// Events between server nodes, see notifyNodes
+interface InterServerEvents {
+  forward_event: (forwarded: ForwardedEvent, ack: (response: unknown) => void) => void;
+  socket_disconnected: (socketId: string) => void;
+  tournament_action: (nodeId: string, action: TournamentAction) => void;
+  user_muted: (userId: string, until: string | null) => void; // ISO date, sent as JSON
+}
+
+interface SocketData {
+  userId?: string;
+  protocolVersion?: number;
+}
+
+type GameServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// What the event handlers need from a socket
+interface GameSocket {
+  id: string;
+  data: SocketData;
+  join(room: string): unknown;
+  leave(room: string): unknown;
+  on<E extends keyof ClientToServerEvents>(event: E, listener: ClientToServerEvents[E]): unknown;
+  on(event: "disconnect", listener: () => void): unknown;
+}
+
+// Events that act on a room and must run on the node that owns it
+const ROOM_EVENTS = new Set([
+  "make_move", "request_pause", "respond_pause", "resume_game", "resign", "offer_draw", "respond_draw",
+  "leave_room", "spectate_room", "stop_spectating",
+  "send_message", "get_chat_history", "mute_opponent", "send_reaction", "toggle_reactions",
+  "request_rematch", "accept_rematch", "decline_rematch", "admin_get_room", "admin_end_room"
+]);
+const INVITE_EVENTS = new Set(["join_private_room", "cancel_private_room"]);
+const TOURNAMENT_EVENTS = new Set([
+  "register_tournament", "unregister_tournament", "tournament_ready",
+  "admin_create_tournament", "admin_start_tournament", "admin_cancel_tournament"
+]);
+
+// Returns the node that should handle `event`, or null to handle it here
+async function findEventOwner(node: GameNode, event: string, payload: any, socket: GameSocket): Promise<string | null> {
+  if (TOURNAMENT_EVENTS.has(event)) return node.store.leaseOwner(TOURNAMENTS_LEASE);
+
+  let roomId: string | undefined;
+  if (ROOM_EVENTS.has(event)) {
+    roomId = payload?.roomId;
+  } else if (INVITE_EVENTS.has(event)) {
+    roomId = (await node.store.resolveInviteCode(String(payload?.code ?? "").trim().toUpperCase())) ?? undefined;
+  } else if (event === "rejoin_room") {
+    roomId = (await findRoomForSession(node, payload?.sessionToken, socket.data.userId))?.id;
+  }
+
+  if (!roomId || node.rooms.has(roomId)) return null;
+  return node.store.leaseOwner(roomLeaseKey(roomId));
+}
+
+/**
+ * Wraps a connected socket so events for rooms owned by another node are
+ * handed to that node, which runs the same handler and sends back the
+ * callback response. Payloads are checked against the protocol first, so
+ * handlers only ever see well-formed ones.
+ */
+function routeSocket(node: GameNode, socket: ClientSocket): GameSocket {
+  return {
+    id: socket.id,
+    data: socket.data,
+    join: room => socket.join(room),
+    leave: room => socket.leave(room),
+    on: (event: string, listener: (...args: any[]) => void) => (socket as Socket).on(event, async (payload: any, callback?: unknown) => {
+      if (event === "disconnect") {
+        listener(payload);
+        return;
+      }
+
+      // Clients that don't wait for an answer still get their event handled
+      const respond = typeof callback === "function" ? callback as (response: unknown) => void : () => {};
+      const invalidField = findInvalidField(event, payload);
+      if (invalidField) {
+        respond(errorResponse(new GameError("invalid_payload", `داده ارسالی نامعتبر است: ${invalidField}`)));
+        return;
+      }
+
+      const owner = await findEventOwner(node, event, payload, socket).catch(() => null);
+      if (!owner || owner === node.id) {
+        listener(payload ?? {}, respond);
+        return;
+      }
+
+      try {
+        const forwarded: ForwardedEvent = { nodeId: owner, event, socketId: socket.id, userId: socket.data.userId, payload };
+        // Rejects if the other nodes don't answer within the adapter's timeout
+        const responses: unknown[] = await node.io.serverSideEmitWithAck("forward_event", forwarded);
+        respond(responses.find(response => response) ?? errorResponse(new GameError("unavailable", "سرور بازی در دسترس نیست")));
+      } catch (error: any) {
+        console.error(`Forward ${event} error:`, error.message);
+        respond(errorResponse(new GameError("unavailable", "سرور بازی در دسترس نیست")));
+      }
+    })
+  };
+}
+
+/**
+ * Stands in on the owning node for a socket connected to another node.
+ * Joins and leaves go through the adapter so they reach the real socket.
+ */
+class ForwardedSocket implements GameSocket {
+  id: string;
+  data: { userId?: string };
+  io: GameServer;
+  handlers: Map<string, (...args: any[]) => void>;
+
+  constructor(io: GameServer, id: string, userId?: string) {
+    this.io = io;
+    this.id = id;
+    this.data = { userId };
+    this.handlers = new Map();
+  }
+
+  join(room: string) {
+    this.io.in(this.id).socketsJoin(room);
+  }
+
+  leave(room: string) {
+    this.io.in(this.id).socketsLeave(room);
+  }
+
+  on(event: string, listener: (...args: any[]) => void) {
+    this.handlers.set(event, listener);
+  }
+
+  dispatch(event: string, payload: unknown): Promise<unknown> {
+    const handler = this.handlers.get(event);
+    if (!handler) return Promise.resolve(null);
+    return new Promise(resolve => handler(payload, resolve));
+  }
+}
+
+async function handleForwardedEvent(node: GameNode, { nodeId, event, socketId, userId, payload }: ForwardedEvent) {
+  if (nodeId !== node.id) return null;
+
+  let socket = node.forwardedSockets.get(socketId);
+  if (!socket) {
+    socket = new ForwardedSocket(node.io, socketId, userId);
+    registerSocketHandlers(node, socket);
+    node.forwardedSockets.set(socketId, socket);
+  }
+  return socket.dispatch(event, payload);
+}
+
+function registerSocketHandlers(node: GameNode, socket: GameSocket) {
+  socket.on("join_queue", async ({ username, settings }, callback) => {
+    try {
+      const busyReason = await isSocketBusy(node, socket.id);
+      if (busyReason) {
+        callback(errorResponse(new GameError("busy", busyReason)));
+        return;
+      }
+
+      const roomSettings = resolveSettings(settings);
+
+      const user = await loadSessionUser(socket.data.userId, username);
+
+      const player = createHumanPlayer(username, socket.id, user);
+      player.settings = roomSettings;
+      
+      await node.store.enqueue(player.toSnapshot());
+
+      callback({
+        success: true,
+        message: "وارد صف انتظار شدید",
+        sessionToken: player.sessionToken,
+        rating: player.rating,
+        estimatedWait: await estimateQueueWait(node, player)
+      });
+
+      await processMatchmakingQueue(node);
+    } catch (error) {
+      console.error('Join queue error:', error);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("create_private_room", async ({ username, settings }, callback) => {
+    try {
+      const busyReason = await isSocketBusy(node, socket.id);
+      if (busyReason) throw new GameError("busy", busyReason);
+
+      const roomSettings = resolveSettings(settings);
+      const user = await loadSessionUser(socket.data.userId, username);
+      const host = createHumanPlayer(username, socket.id, user);
+      const room = await createPrivateRoom(host, node, roomSettings);
+
+      callback({
+        success: true,
+        code: room.inviteCode,
+        roomId: room.id,
+        sessionToken: host.sessionToken,
+        expiresIn: PRIVATE_ROOM_EXPIRY / 1000
+      });
+    } catch (error: any) {
+      console.error('Create private room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("join_private_room", async ({ code, username }, callback) => {
+    try {
+      const busyReason = await isSocketBusy(node, socket.id);
+      if (busyReason) throw new GameError("busy", busyReason);
+
+      const roomId = await node.store.resolveInviteCode(code?.trim().toUpperCase());
+      const room = roomId ? node.rooms.get(roomId) : undefined;
+      if (!room || room.gameState.gameStatus !== "waiting") throw new GameError("not_found", "کد دعوت نامعتبر یا منقضی شده است");
+
+      const host = room.getPlayerByNumber(1);
+      if (!host) throw new GameError("not_found", "سازنده اتاق دیگر در دسترس نیست");
+
+      const user = await loadSessionUser(socket.data.userId, username);
+      if (user && host.userId?.equals(user._id)) throw new GameError("forbidden", "نمی‌توانید به اتاق خودتان بپیوندید");
+
+      const guest = createHumanPlayer(username, socket.id, user);
+
+      callback({ success: true, roomId: room.id, sessionToken: guest.sessionToken });
+
+      await createAndJoinRoom([host, guest], node, room);
+    } catch (error: any) {
+      console.error('Join private room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("cancel_private_room", async ({ code }, callback) => {
+    try {
+      const roomId = await node.store.resolveInviteCode(code?.trim().toUpperCase());
+      const room = roomId ? node.rooms.get(roomId) : undefined;
+      if (!room) throw new GameError("not_found", "اتاق یافت نشد");
+      if (room.getPlayerByNumber(1)?.socketId !== socket.id) throw new GameError("forbidden", "فقط سازنده اتاق می‌تواند آن را لغو کند");
+
+      await dropRoom(room);
+      socket.leave(room.id);
+
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Cancel private room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("play_vs_bot", async ({ username, level = "greedy", settings }, callback) => {
+    try {
+      const busyReason = await isSocketBusy(node, socket.id);
+      if (busyReason) throw new GameError("busy", busyReason);
+      if (!BOT_LEVELS.includes(level)) throw new GameError("invalid_payload", "سطح دشواری نامعتبر است");
+
+      const roomSettings = resolveSettings(settings);
+      const user = await loadSessionUser(socket.data.userId, username);
+      const player = createHumanPlayer(username, socket.id, user);
+
+      callback({ success: true, sessionToken: player.sessionToken });
+
+      await createAndJoinRoom([player, Player.createBot(level)], node, new Room(node, uuidv4(), roomSettings));
+    } catch (error: any) {
+      console.error('Play vs bot error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("make_move", async ({ roomId, move }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+  
+      const player = Array.from(room.players.values()).find(p => p.socketId === socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+  
+      await room.submitMove(player, move);
+      callback({ success: true });
+  
+    } catch (error: any) {
+      console.error('Move error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("request_pause", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      room.requestPause(player);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Pause error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("respond_pause", ({ roomId, accept }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      room.respondToPause(player, accept === true);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Pause error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("resume_game", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      if (!room.players.has(socket.id)) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+      if (!room.gameState.isPaused) throw new GameError("invalid_state", 'بازی متوقف نیست');
+
+      room.resumePlay();
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Resume error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("resign", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      room.resign(player);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Resign error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("offer_draw", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      room.offerDraw(player);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Draw offer error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("respond_draw", ({ roomId, accept }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      room.respondToDraw(player, accept === true);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Draw response error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("leave_room", async ({ roomId }, callback) => {
+    try {
+      const success = await handlePlayerLeaving(node, socket.id, roomId);
+      if (success) {
+        socket.leave(roomId);
+        callback({ success: true });
+      } else {
+        callback(errorResponse(new GameError("not_found", "اتاق یافت نشد")));
+      }
+    } catch (error: any) {
+      console.error('Leave room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("list_live_games", async (_payload, callback) => {
+    try {
+      const rooms = await node.store.listRooms();
+      const games: LiveGameSummary[] = rooms
+        .filter(room => room.gameState.gameStatus === "active")
+        .map(room => ({
+          roomId: room.id,
+          playerNames: room.gameState.playerNames,
+          scores: room.gameState.scores,
+          settings: room.gameState.settings,
+          spectatorCount: room.spectators.length,
+          startedAt: new Date(room.gameStartTime)
+        }));
+
+      callback({ success: true, games });
+    } catch (error: any) {
+      console.error('List live games error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("spectate_room", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room || room.gameState.gameStatus !== "active") throw new GameError("not_found", 'بازی در حال انجامی یافت نشد');
+      if (room.players.has(socket.id)) throw new GameError("invalid_state", 'شما بازیکن این اتاق هستید');
+
+      socket.join(roomId);
+      room.addSpectator(socket.id);
+
+      callback({ success: true, roomId, gameState: room.gameState });
+    } catch (error: any) {
+      console.error('Spectate room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("stop_spectating", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room?.removeSpectator(socket.id)) throw new GameError("not_in_room", 'شما تماشاگر این اتاق نیستید');
+
+      socket.leave(roomId);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Stop spectating error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("rejoin_room", async ({ sessionToken }, callback) => {
+    try {
+      const userId: string | undefined = socket.data.userId;
+      if (!sessionToken && !userId) throw new GameError("unauthenticated", "اطلاعات نشست ارائه نشده است");
+
+      for (const room of node.rooms.values()) {
+        const player = room.findPlayerBySession(sessionToken, userId);
+        if (!player || player.connected) continue;
+
+        socket.join(room.id);
+        room.reconnectPlayer(player, socket.id);
+
+        callback({
+          success: true,
+          roomId: room.id,
+          playerNumber: player.playerNumber,
+          sessionToken: player.sessionToken,
+          gameState: room.gameState
+        });
+        return;
+      }
+
+      callback(errorResponse(new GameError("not_found", "بازی در حال انجامی برای بازگشت یافت نشد")));
+    } catch (error: any) {
+      console.error('Rejoin room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_game_replay", async ({ roomId, step }, callback) => {
+    try {
+      const replay = await getGameReplay(roomId, step);
+      callback({ success: true, replay });
+    } catch (error: any) {
+      console.error('Get game replay error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_match_history", async ({ userId, cursor, limit, result, from, to, opponentId }, callback) => {
+    try {
+      const resolvedUserId = userId || socket.data.userId;
+      if (!resolvedUserId) throw new GameError("unauthenticated", "ابتدا وارد حساب کاربری خود شوید");
+
+      const history = await getMatchHistory({
+        userId: resolvedUserId,
+        cursor,
+        limit,
+        result: parseMatchResult(result),
+        from: parseHistoryDate(from),
+        to: parseHistoryDate(to),
+        opponentId
+      });
+
+      callback({ success: true, history });
+    } catch (error: any) {
+      console.error('Get match history error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_leaderboard", async ({ period, metric, page, limit }, callback) => {
+    try {
+      const leaderboard = await getLeaderboard({ period, metric, page, limit, userId: socket.data.userId });
+
+      callback({ success: true, leaderboard });
+    } catch (error: any) {
+      console.error('Get leaderboard error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_referral_stats", async (_payload, callback) => {
+    try {
+      if (!socket.data.userId) throw new GameError("unauthenticated", "ابتدا وارد حساب کاربری خود شوید");
+
+      const referrals = await getReferralStats(socket.data.userId);
+      callback({ success: true, referrals });
+    } catch (error: any) {
+      console.error('Get referral stats error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_user_stats", async (_payload, callback) => {
+    try {
+      if (!socket.data.userId) {
+        callback(errorResponse(new GameError("unauthenticated", "ابتدا وارد حساب کاربری خود شوید")));
+        return;
+      }
+
+      const user = await User.findById(socket.data.userId);
+      if (!user) {
+        callback(errorResponse(new GameError("not_found", "کاربر یافت نشد")));
+        return;
+      }
+
+      callback({ 
+        success: true, 
+        stats: user.statistics,
+        username: user.username
+      });
+    } catch (error: any) {
+      console.error('Get stats error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+
+  socket.on("send_message", async ({ roomId, message: rawMessage }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = Array.from(room.players.values()).find(p => p.socketId === socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      const message = typeof rawMessage === "string" ? rawMessage.trim() : "";
+      if (!message) throw new GameError("invalid_payload", "پیام خالی است");
+      if (message.length > MAX_MESSAGE_LENGTH) {
+        throw new GameError("invalid_payload", `طول پیام نباید بیشتر از ${MAX_MESSAGE_LENGTH} نویسه باشد`);
+      }
+
+      if (isMuted(player.mutedUntil)) {
+        throw new GameError("forbidden", "امکان ارسال پیام برای شما موقتا غیرفعال است");
+      }
+
+      if (!allowMessage(player.messageTimes)) {
+        throw new GameError("rate_limited", "تعداد پیام‌های شما بیش از حد مجاز است، کمی صبر کنید");
+      }
+
+      if (isAbusive(message)) {
+        if (player.playerNumber) room.issueCard(player.playerNumber, "yellow", "abusive_chat");
+        throw new GameError("forbidden", "پیام شما حاوی کلمات نامناسب است");
+      }
+
+      // Save message in DB
+      const chatMessage = {
+        sender: player.userId,
+        senderName: player.username,
+        playerNumber: player.playerNumber,
+        message,
+        timestamp: new Date()
+      };
+
+      await Game.updateOne(
+        { roomId },
+        { $push: { chat: chatMessage } }
+      );
+
+      // Send message to everyone in the room except an opponent who muted this player
+      const opponent = Array.from(room.players.values()).find(p => p !== player);
+      const recipients = opponent?.mutedOpponent ? node.io.to(roomId).except(opponent.socketId) : node.io.to(roomId);
+      recipients.emit("receive_message", {
+        sender: player.username,
+        playerNumber: player.playerNumber,
+        message,
+        timestamp: chatMessage.timestamp
+      });
+
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Send message error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_chat_history", async ({ roomId }, callback) => {
+    try {
+      const game = await Game.findOne({ roomId }).populate('chat.sender', 'username');
+      if (!game) throw new GameError("not_found", 'بازی یافت نشد');
+
+
+      // Hide the opponent's messages from a player who muted them
+      const me = node.rooms.get(roomId)?.players.get(socket.id);
+      const hiddenPlayer = me?.mutedOpponent && me.playerNumber ? (me.playerNumber === 1 ? 2 : 1) : null;
+      
+      const chatHistory: ChatHistoryItem[] = game.chat
+        .filter((msg: any) => !hiddenPlayer || msg.playerNumber !== hiddenPlayer)
+        .map((msg: any) => ({
+          sender: msg.sender?.username ?? msg.senderName,
+          playerNumber: msg.playerNumber,
+          message: msg.message,
+          timestamp: msg.timestamp
+        }));
+
+      callback({ success: true, chat: chatHistory });
+    } catch (error: any) {
+      console.error('Get chat history error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("mute_opponent", ({ roomId, muted }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      player.mutedOpponent = !!muted;
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Mute opponent error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("get_reaction_catalog", (_payload, callback) => {
+    callback({ success: true, reactions: REACTIONS });
+  });
+
+  socket.on("send_reaction", async ({ roomId, reactionId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      const reaction = findReaction(reactionId);
+      if (!reaction) throw new GameError("invalid_payload", 'واکنش نامعتبر است');
+
+      const now = Date.now();
+      if (now - player.lastReactionAt < REACTION_COOLDOWN) {
+        throw new GameError("rate_limited", 'لطفا کمی صبر کنید');
+      }
+      player.lastReactionAt = now;
+
+      const entry = { playerNumber: player.playerNumber, reactionId, timestamp: new Date(now) };
+      await Game.updateOne({ roomId }, { $push: { reactions: entry } });
+
+      // Players who turned reactions off don't receive them; spectators always do
+      const optedOut = Array.from(room.players.values())
+        .filter(p => p !== player && !p.reactionsEnabled)
+        .map(p => p.socketId);
+      node.io.to(roomId).except(optedOut).emit("receive_reaction", {
+        ...entry,
+        sender: player.username,
+        reaction
+      });
+
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Send reaction error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("toggle_reactions", ({ roomId, enabled }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+
+      player.reactionsEnabled = !!enabled;
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Toggle reactions error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("request_rematch", async ({ roomId, swapFirst = true }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player?.playerNumber) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+      if (room.gameState.gameStatus !== "ended") throw new GameError("invalid_state", 'بازی هنوز تمام نشده است');
+      if (room.tournament) throw new GameError("invalid_state", 'بازی بعدی مسابقه به صورت خودکار شروع می‌شود');
+      if (room.rematchOffer) throw new GameError("invalid_state", 'یک درخواست بازی مجدد در جریان است');
+
+      const opponent = room.getPlayerByNumber(player.playerNumber === 1 ? 2 : 1);
+      if (!opponent || !opponent.connected) throw new GameError("invalid_state", 'حریف دیگر در اتاق نیست');
+      await assertRematchPossible(node, room);
+      // The opponent may have asked first while we were checking
+      if (room.rematchOffer) throw new GameError("invalid_state", 'یک درخواست بازی مجدد در جریان است');
+
+      // The computer always takes a rematch
+      if (opponent.isBot) {
+        await startRematch(node, room, swapFirst);
+        callback({ success: true });
+        return;
+      }
+
+      room.rematchOffer = {
+        from: player.playerNumber,
+        swapFirst: !!swapFirst,
+        timer: setTimeout(() => {
+          room.rematchOffer = undefined;
+          node.io.to(roomId).emit("rematch_expired", { message: "مهلت پاسخ به درخواست بازی مجدد تمام شد" });
+        }, REMATCH_OFFER_TIMEOUT)
+      };
+
+      callback({ success: true });
+      node.io.to(roomId).emit("rematch_requested", {
+        from: player.playerNumber,
+        username: player.username,
+        expiresIn: REMATCH_OFFER_TIMEOUT / 1000
+      });
+    } catch (error: any) {
+      console.error('Request rematch error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("accept_rematch", async ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+      const offer = room.rematchOffer;
+      if (!offer || offer.from === player.playerNumber) {
+        throw new GameError("invalid_state", 'درخواست بازی مجددی برای پذیرفتن وجود ندارد');
+      }
+      await assertRematchPossible(node, room);
+      // The offer may have expired or been withdrawn while we were checking
+      if (room.rematchOffer !== offer) throw new GameError("invalid_state", 'درخواست بازی مجدد دیگر معتبر نیست');
+
+      room.clearRematchOffer();
+      await startRematch(node, room, offer.swapFirst);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Accept rematch error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("decline_rematch", ({ roomId }, callback) => {
+    try {
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      const player = room.players.get(socket.id);
+      if (!player) throw new GameError("not_in_room", 'شما در این اتاق نیستید');
+      if (!room.rematchOffer || room.rematchOffer.from === player.playerNumber) {
+        throw new GameError("invalid_state", 'درخواست بازی مجددی برای رد کردن وجود ندارد');
+      }
+
+      room.clearRematchOffer();
+      node.io.to(roomId).emit("rematch_declined", { message: `${player.username} درخواست بازی مجدد را رد کرد` });
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Decline rematch error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("list_tournaments", async (_payload, callback) => {
+    try {
+      callback({ success: true, tournaments: await node.tournaments.list() });
+    } catch (error: any) {
+      console.error('List tournaments error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  // Subscribes the socket to bracket updates for one tournament
+  socket.on("watch_tournament", async ({ tournamentId }, callback) => {
+    try {
+      const tournament = await node.tournaments.get(tournamentId);
+      socket.join(`tournament:${tournament.id}`);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Watch tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("unwatch_tournament", ({ tournamentId }, callback) => {
+    socket.leave(`tournament:${tournamentId}`);
+    callback({ success: true });
+  });
+
+  socket.on("register_tournament", async ({ tournamentId }, callback) => {
+    try {
+      if (!socket.data.userId) throw new GameError("unauthenticated", 'برای شرکت در مسابقه وارد حساب کاربری خود شوید');
+      const user = await User.findById(socket.data.userId);
+      if (!user) throw new GameError("not_found", 'کاربر یافت نشد');
+      assertNotBanned(user);
+
+      const tournament = await node.tournaments.register(tournamentId, socket.data.userId);
+      socket.join(`tournament:${tournament.id}`);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Register tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("unregister_tournament", async ({ tournamentId }, callback) => {
+    try {
+      if (!socket.data.userId) throw new GameError("unauthenticated", 'ابتدا وارد حساب کاربری خود شوید');
+      const tournament = await node.tournaments.unregister(tournamentId, socket.data.userId);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Unregister tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  // A participant confirms they are present for the next game of their match
+  socket.on("tournament_ready", async ({ tournamentId }, callback) => {
+    try {
+      if (!socket.data.userId) throw new GameError("unauthenticated", 'ابتدا وارد حساب کاربری خود شوید');
+      const busyMessage = await isSocketBusy(node, socket.id);
+      if (busyMessage) throw new GameError("busy", busyMessage);
+
+      socket.join(`tournament:${tournamentId}`);
+      await node.tournaments.markReady(tournamentId, socket.data.userId, socket.id);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Tournament ready error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_create_tournament", async (options, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const tournament = await node.tournaments.create(admin._id, options ?? {});
+
+      await writeAuditLog(admin._id, "create_tournament", tournament.id, options);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Admin create tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_start_tournament", async ({ tournamentId }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const tournament = await node.tournaments.start(tournamentId);
+
+      await writeAuditLog(admin._id, "start_tournament", tournament.id);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Admin start tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_cancel_tournament", async ({ tournamentId }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const tournament = await node.tournaments.cancel(tournamentId);
+
+      await writeAuditLog(admin._id, "cancel_tournament", tournament.id);
+      callback({ success: true, tournament });
+    } catch (error: any) {
+      console.error('Admin cancel tournament error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_list_rooms", async (_payload, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const rooms = (await node.store.listRooms()).map(summarizeRoom);
+
+      await writeAuditLog(admin._id, "list_rooms");
+      callback({ success: true, rooms });
+    } catch (error: any) {
+      console.error('Admin list rooms error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_get_room", async ({ roomId }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+
+      await writeAuditLog(admin._id, "inspect_room", roomId);
+      callback({ success: true, room: { ...summarizeRoom(room.toSnapshot()), gameState: room.gameState, cards: room.cards } });
+    } catch (error: any) {
+      console.error('Admin get room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_end_room", async ({ roomId, winner = null, reason }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const room = node.rooms.get(roomId);
+      if (!room) throw new GameError("not_found", 'اتاق یافت نشد');
+      if (winner !== null && winner !== 1 && winner !== 2) throw new GameError("invalid_payload", 'برنده نامعتبر است');
+
+      if (!room.forceEnd(winner, "admin", "بازی توسط مدیر پایان یافت")) {
+        throw new GameError("invalid_state", 'این بازی قبلا پایان یافته است');
+      }
+      await writeAuditLog(admin._id, "end_room", roomId, { winner, reason });
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Admin end room error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_ban_user", async ({ userId, minutes, reason }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const until = await banUser(admin._id, userId, minutes, reason);
+
+      if (until) {
+        for (const entry of await node.store.listQueue()) {
+          if (entry.userId === userId) await node.store.dequeue(entry.socketId);
+        }
+      }
+
+      callback({ success: true, until });
+    } catch (error: any) {
+      console.error('Admin ban user error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_mute_user", async ({ userId, minutes, reason }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const until = await muteUser(admin._id, userId, minutes, reason);
+
+      // Apply to matches already in progress, wherever they run
+      applyMuteToRooms(node, userId, until);
+      notifyNodes(node, "user_muted", userId, until?.toISOString() ?? null);
+
+      callback({ success: true, until });
+    } catch (error: any) {
+      console.error('Admin mute user error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_reset_stats", async ({ userId }, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      await resetUserStatistics(admin._id, userId);
+      callback({ success: true });
+    } catch (error: any) {
+      console.error('Admin reset stats error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("admin_search_games", async (query, callback) => {
+    try {
+      const admin = await requireAdmin(socket.data.userId);
+      const search = await searchGames(admin._id, query ?? {});
+      callback({ success: true, search });
+    } catch (error: any) {
+      console.error('Admin search games error:', error.message);
+      callback(errorResponse(error));
+    }
+  });
+
+  socket.on("disconnect", async () => {
+    console.log(`Client disconnected: ${socket.id}`);
+
+    try {
+      await node.store.dequeue(socket.id);
+      await handleSocketDisconnect(node, socket.id);
+      // Rooms on other nodes may have this socket seated too
+      notifyNodes(node, "socket_disconnected", socket.id);
+    } catch (error) {
+      console.error("Disconnect error:", error);
+    }
+  });
+}
+
+/**
+ * Runs one game server on its own HTTP server. Nodes given the same `redis`
+ * form a cluster: they share rooms, the queue and tournaments, and take over
+ * each other's rooms when a node goes away.
+ */
+export interface GameServerOptions {
+  port?: number; // 0 picks a free port
+  nodeId?: string;
+  redis?: RedisClient;
+  // Defaults to a store on `redis`, or to one in memory for a lone node
+  store?: GameStore;
+  // Serves whatever is not part of the API, such as the pages
+  handleRequest?: (req: IncomingMessage, res: ServerResponse) => void;
+}
+
+export interface GameServerHandle {
+  io: GameServer;
+  nodeId: string;
+  port: number;
+  // Stops the node and hands its rooms over to the rest of the cluster
+  close(): Promise<void>;
+}
+
+export async function createGameServer(options: GameServerOptions = {}): Promise<GameServerHandle> {
+  const { redis, handleRequest } = options;
+  const dev = process.env.NODE_ENV !== "production";
+
+  const httpServer = createServer(async (req, res) => {
+    if (await handleApiRequest(req, res)) return;
+    if (handleRequest) {
+      handleRequest(req, res);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  const io: GameServer = new Server(httpServer, {
+    cors: {
+      origin: dev ? "*" : process.env.ALLOWED_ORIGINS?.split(',') || "http://localhost:3000",
+      methods: ["GET", "POST"]
+    },
+    adapter: redis ? createPubSubAdapter(redis) : undefined
+  });
+
+  const node: GameNode = {
+    id: options.nodeId || uuidv4(),
+    io,
+    store: options.store ?? (redis ? new RedisStore(redis) : new MemoryStore()),
+    clustered: Boolean(redis),
+    rooms: new Map(),
+    tournaments: new TournamentManager({
+      startGame: (tournamentId, match, seats, settings) => startTournamentGame(node, tournamentId, match, seats, settings),
+      notify: (tournamentId, event, ...args) => node.io.to(`tournament:${tournamentId}`).emit(event, ...args),
+      hasLiveGame: async (tournamentId, matchId) => (await node.store.listRooms()).some(room =>
+        room.tournament?.id === tournamentId && room.tournament.matchId === matchId && room.gameState.gameStatus === "active"
+      )
+    }),
+    runsTournaments: false,
+    forwardedSockets: new Map(),
+    closed: false
+  };
+
+  // Clients built against an older protocol are told to update before anything else
+  io.use((socket, next) => {
+    const version = socket.handshake.auth?.protocolVersion;
+    if (!isSupportedVersion(version)) {
+      return next(Object.assign(new Error("update_required"), {
+        data: {
+          error: "update_required",
+          message: "نسخه برنامه شما قدیمی است، لطفا آن را به‌روزرسانی کنید",
+          minVersion: MIN_PROTOCOL_VERSION,
+          protocolVersion: PROTOCOL_VERSION
+        }
+      }));
+    }
+
+    socket.data.protocolVersion = version;
+    next();
+  });
+
+  // Sockets may connect as guests, but a token that is sent must be valid
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token;
+    if (!token) return next();
+
+    const session = verifySessionToken(token);
+    if (!session) {
+      return next(Object.assign(new Error("unauthorized"), {
+        data: { error: "unauthenticated", message: "نشست شما معتبر نیست، دوباره وارد شوید" }
+      }));
+    }
+
+    socket.data.userId = session.userId;
+    next();
+  });
+
+  io.on("connection", (socket) => {
+    console.log(`Client connected: ${socket.id}`);
+    registerSocketHandlers(node, routeSocket(node, socket));
+  });
+
+  // Messages from the other nodes
+  io.on("forward_event", async (forwarded: ForwardedEvent, ack: (response: unknown) => void) => {
+    try {
+      ack(await handleForwardedEvent(node, forwarded));
+    } catch (error: any) {
+      console.error('Forwarded event error:', error.message);
+      ack(errorResponse(error));
+    }
+  });
+
+  io.on("socket_disconnected", (socketId: string) => {
+    node.forwardedSockets.delete(socketId);
+    handleSocketDisconnect(node, socketId).catch(error => console.error("Disconnect error:", error));
+  });
+
+  io.on("tournament_action", (nodeId: string, action: TournamentAction) => {
+    if (nodeId !== node.id) return;
+    applyTournamentAction(node, action).catch(error => console.error("Tournament action error:", error));
+  });
+
+  io.on("user_muted", (userId: string, until: string | null) => {
+    applyMuteToRooms(node, userId, until ? new Date(until) : null);
+  });
+
+  const intervals: NodeJS.Timeout[] = [];
+  intervals.push(setInterval(() => {
+    processMatchmakingQueue(node).catch(error => console.error("Matchmaking error:", error));
+  }, MATCHMAKING_INTERVAL));
+
+  const maintainLeases = async () => {
+    if (node.closed) return;
+    try {
+      await maintainRoomLeases(node);
+      await maintainTournamentsLease(node);
+    } catch (error) {
+      console.error("Lease maintenance error:", error);
+    }
+  };
+  intervals.push(setInterval(maintainLeases, LEASE_RENEW_INTERVAL));
+
+  intervals.push(setInterval(async () => {
+    for (const room of Array.from(node.rooms.values())) {
+      if (!room.isEmpty() && !room.isInactive(ROOM_CLEANUP_INTERVAL)) continue;
+      try {
+        // Close incomplete games without a result
+        if (room.gameState.gameStatus === "active") {
+          await room.abort("عدم فعالیت بازیکنان");
+        } else {
+          await dropRoom(room);
+        }
+      } catch (error) {
+        console.error("Room cleanup error:", error);
+      }
+    }
+  }, 60 * 1000));
+
+  await new Promise<void>(resolve => httpServer.listen(options.port ?? 0, resolve));
+  // Restored rooms need to exist before tournaments look for their live games
+  restoreCheckpointedRooms(node)
+    .catch(error => console.error("Error restoring games:", error))
+    .finally(maintainLeases);
+
+  return {
+    io,
+    nodeId: node.id,
+    port: (httpServer.address() as AddressInfo).port,
+    async close() {
+      node.closed = true;
+      intervals.forEach(clearInterval);
+      node.tournaments.dispose();
+
+      // Leases are given up rather than left to expire, so another node
+      // takes the rooms over at its next lease check
+      for (const room of Array.from(node.rooms.values())) {
+        room.dispose();
+        await node.store.saveRoom(room.toSnapshot());
+        await node.store.releaseLease(roomLeaseKey(room.id), node.id);
+      }
+      node.rooms.clear();
+      await node.store.releaseLease(MATCHMAKING_LEASE, node.id);
+      await node.store.releaseLease(TOURNAMENTS_LEASE, node.id);
+
+      // Also closes the HTTP server
+      await io.close();
+    }
+  };
+}
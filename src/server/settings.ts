@@ -0,0 +1,78 @@
+// Per-room match rules chosen when queuing or creating a room.
+import { GameError } from "./protocol";
+
+// "per_move" gives every turn turnTime and plays a random move when it runs
+// out; "bank" gives each player bankTime for the whole game, plus increment
+// after each of their moves, and running out loses the game.
+export type TimeControl = "per_move" | "bank";
+
+export const TIME_CONTROLS: TimeControl[] = ["per_move", "bank"];
+
+export interface RoomSettings {
+  width: number; // boxes per row
+  height: number; // boxes per column
+  timeControl: TimeControl;
+  turnTime: number; // seconds, for per-move time control
+  bankTime: number; // seconds, for bank time control
+  increment: number; // seconds, for bank time control
+  extraTurnOnBox: boolean;
+}
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  width: 5,
+  height: 5,
+  timeControl: "per_move",
+  turnTime: 30,
+  bankTime: 180,
+  increment: 2,
+  extraTurnOnBox: true
+};
+
+const SETTING_RANGES = {
+  width: { min: 2, max: 10 },
+  height: { min: 2, max: 10 },
+  turnTime: { min: 10, max: 120 },
+  bankTime: { min: 30, max: 1800 },
+  increment: { min: 0, max: 30 }
+};
+
+function validateRange(value: unknown, key: keyof typeof SETTING_RANGES, label: string): number {
+  const { min, max } = SETTING_RANGES[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    throw new GameError("invalid_payload", `${label} باید عددی صحیح بین ${min} و ${max} باشد`);
+  }
+  return value;
+}
+
+/**
+ * Fills in defaults for missing fields and throws if any value is out of range.
+ */
+export function resolveSettings(requested: Partial<RoomSettings> = {}): RoomSettings {
+  const settings = { ...DEFAULT_SETTINGS, ...requested };
+
+  if (typeof settings.extraTurnOnBox !== "boolean") {
+    throw new GameError("invalid_payload", "تنظیم نوبت اضافه نامعتبر است");
+  }
+  if (!TIME_CONTROLS.includes(settings.timeControl)) {
+    throw new GameError("invalid_payload", "نوع کنترل زمان نامعتبر است");
+  }
+
+  return {
+    width: validateRange(settings.width, "width", "عرض صفحه"),
+    height: validateRange(settings.height, "height", "ارتفاع صفحه"),
+    timeControl: settings.timeControl,
+    turnTime: validateRange(settings.turnTime, "turnTime", "زمان نوبت"),
+    bankTime: validateRange(settings.bankTime, "bankTime", "زمان کل بازیکن"),
+    increment: validateRange(settings.increment, "increment", "زمان اضافه هر حرکت"),
+    extraTurnOnBox: settings.extraTurnOnBox
+  };
+}
+
+export function totalBoxes(settings: RoomSettings): number {
+  return settings.width * settings.height;
+}
+
+export function settingsKey(settings: RoomSettings): string {
+  const time = settings.timeControl === "bank" ? `${settings.bankTime}+${settings.increment}` : settings.turnTime;
+  return `${settings.width}x${settings.height}:${time}:${settings.extraTurnOnBox ? 1 : 0}`;
+}
@@ -0,0 +1,52 @@
+import { appendFile } from "node:fs/promises";
+
+export interface SmsProvider {
+  send(phone: string, message: string): Promise<void>;
+}
+
+// Development stub: prints messages to the server log
+class ConsoleSmsProvider implements SmsProvider {
+  async send(phone: string, message: string) {
+    console.log(`[SMS to ${phone}] ${message}`);
+  }
+}
+
+// Development stub: appends messages to SMS_LOG_FILE
+class FileSmsProvider implements SmsProvider {
+  path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async send(phone: string, message: string) {
+    await appendFile(this.path, `${new Date().toISOString()}\t${phone}\t${message}\n`);
+  }
+}
+
+type SmsProviderFactory = () => SmsProvider;
+
+const providers = new Map<string, SmsProviderFactory>([
+  ["console", () => new ConsoleSmsProvider()],
+  ["file", () => new FileSmsProvider(process.env.SMS_LOG_FILE || "sms.log")]
+]);
+
+let activeProvider: SmsProvider | undefined;
+
+/**
+ * Makes a real gateway selectable through the SMS_PROVIDER env variable.
+ */
+export function registerSmsProvider(name: string, factory: SmsProviderFactory) {
+  providers.set(name, factory);
+  activeProvider = undefined;
+}
+
+export function getSmsProvider(): SmsProvider {
+  if (!activeProvider) {
+    const name = process.env.SMS_PROVIDER || "console";
+    const factory = providers.get(name);
+    if (!factory) throw new Error(`Unknown SMS provider: ${name}`);
+    activeProvider = factory();
+  }
+  return activeProvider;
+}
@@ -0,0 +1,218 @@
+// Shared state for running several server nodes side by side: room
+// snapshots, the matchmaking queue, invite codes and ownership leases.
+// MemoryStore is enough for a single node; RedisStore lets nodes see each
+// other's rooms and take them over when a node dies.
+import type { Card, GameState, PlayerNumber } from "./types";
+import type { BotLevel } from "./bot";
+import type { RoomSettings } from "./settings";
+import type { RedisClient } from "./redis";
+
+export interface PlayerSnapshot {
+  username: string;
+  socketId: string;
+  playerNumber: PlayerNumber | null;
+  userId?: string;
+  phone?: string;
+  ref?: string;
+  sessionToken: string;
+  connected: boolean;
+  rating: number;
+  queuedAt: number;
+  isBot: boolean;
+  botLevel?: BotLevel;
+  settings: RoomSettings;
+  mutedUntil?: string;
+  mutedOpponent: boolean;
+  reactionsEnabled: boolean;
+}
+
+export interface RoomSnapshot {
+  id: string;
+  ownerId: string;
+  players: PlayerSnapshot[];
+  spectators: string[];
+  gameState: GameState;
+  gameStartTime: string;
+  lastActivityTime: number;
+  inviteCode?: string;
+  cards: Card[];
+  series: {
+    id: string;
+    gameNumber: number;
+    previousRoomId?: string;
+    wins: Record<string, number>; // player session token -> wins
+    draws: number;
+  };
+  resultRecorded: boolean;
+  tournament?: { id: string; matchId: string };
+}
+
+export interface GameStore {
+  saveRoom(room: RoomSnapshot): Promise<void>;
+  getRoom(roomId: string): Promise<RoomSnapshot | null>;
+  deleteRoom(roomId: string): Promise<void>;
+  listRooms(): Promise<RoomSnapshot[]>;
+
+  enqueue(player: PlayerSnapshot): Promise<void>;
+  // Returns false if the player was no longer queued
+  dequeue(socketId: string): Promise<boolean>;
+  listQueue(): Promise<PlayerSnapshot[]>;
+
+  // Returns false if the code is already taken
+  reserveInviteCode(code: string, roomId: string, ttl: number): Promise<boolean>;
+  resolveInviteCode(code: string): Promise<string | null>;
+  deleteInviteCode(code: string): Promise<void>;
+
+  // Takes `key` for `owner` if it is free, or extends it if `owner` already holds it
+  acquireLease(key: string, owner: string, ttl: number): Promise<boolean>;
+  releaseLease(key: string, owner: string): Promise<void>;
+  leaseOwner(key: string): Promise<string | null>;
+}
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class MemoryStore implements GameStore {
+  rooms = new Map<string, string>();
+  queue = new Map<string, string>();
+  inviteCodes = new Map<string, Expiring<string>>();
+  leases = new Map<string, Expiring<string>>();
+
+  // Snapshots are kept serialized so callers never share objects with the store
+  async saveRoom(room: RoomSnapshot) {
+    this.rooms.set(room.id, JSON.stringify(room));
+  }
+
+  async getRoom(roomId: string) {
+    const room = this.rooms.get(roomId);
+    return room ? JSON.parse(room) as RoomSnapshot : null;
+  }
+
+  async deleteRoom(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+
+  async listRooms() {
+    return Array.from(this.rooms.values()).map(room => JSON.parse(room) as RoomSnapshot);
+  }
+
+  async enqueue(player: PlayerSnapshot) {
+    this.queue.set(player.socketId, JSON.stringify(player));
+  }
+
+  async dequeue(socketId: string) {
+    return this.queue.delete(socketId);
+  }
+
+  async listQueue() {
+    return Array.from(this.queue.values()).map(player => JSON.parse(player) as PlayerSnapshot);
+  }
+
+  private live<T>(map: Map<string, Expiring<T>>, key: string): T | null {
+    const entry = map.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      map.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async reserveInviteCode(code: string, roomId: string, ttl: number) {
+    if (this.live(this.inviteCodes, code) !== null) return false;
+    this.inviteCodes.set(code, { value: roomId, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async resolveInviteCode(code: string) {
+    return this.live(this.inviteCodes, code);
+  }
+
+  async deleteInviteCode(code: string) {
+    this.inviteCodes.delete(code);
+  }
+
+  async acquireLease(key: string, owner: string, ttl: number) {
+    const holder = this.live(this.leases, key);
+    if (holder !== null && holder !== owner) return false;
+    this.leases.set(key, { value: owner, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async releaseLease(key: string, owner: string) {
+    if (this.live(this.leases, key) === owner) this.leases.delete(key);
+  }
+
+  async leaseOwner(key: string) {
+    return this.live(this.leases, key);
+  }
+}
+
+export class RedisStore implements GameStore {
+  redis: RedisClient;
+  prefix: string;
+
+  constructor(redis: RedisClient, prefix: string = "dotline:") {
+    this.redis = redis;
+    this.prefix = prefix;
+  }
+
+  async saveRoom(room: RoomSnapshot) {
+    await this.redis.hset(`${this.prefix}rooms`, room.id, JSON.stringify(room));
+  }
+
+  async getRoom(roomId: string) {
+    const room = await this.redis.hget(`${this.prefix}rooms`, roomId);
+    return room ? JSON.parse(room) as RoomSnapshot : null;
+  }
+
+  async deleteRoom(roomId: string) {
+    await this.redis.hdel(`${this.prefix}rooms`, roomId);
+  }
+
+  async listRooms() {
+    const rooms = await this.redis.hvals(`${this.prefix}rooms`);
+    return rooms.map(room => JSON.parse(room) as RoomSnapshot);
+  }
+
+  async enqueue(player: PlayerSnapshot) {
+    await this.redis.hset(`${this.prefix}queue`, player.socketId, JSON.stringify(player));
+  }
+
+  dequeue(socketId: string) {
+    return this.redis.hdel(`${this.prefix}queue`, socketId);
+  }
+
+  async listQueue() {
+    const players = await this.redis.hvals(`${this.prefix}queue`);
+    return players.map(player => JSON.parse(player) as PlayerSnapshot);
+  }
+
+  reserveInviteCode(code: string, roomId: string, ttl: number) {
+    return this.redis.set(`${this.prefix}invite:${code}`, roomId, { ttl, onlyIfAbsent: true });
+  }
+
+  resolveInviteCode(code: string) {
+    return this.redis.get(`${this.prefix}invite:${code}`);
+  }
+
+  deleteInviteCode(code: string) {
+    return this.redis.del(`${this.prefix}invite:${code}`);
+  }
+
+  async acquireLease(key: string, owner: string, ttl: number) {
+    const leaseKey = `${this.prefix}lease:${key}`;
+    if (await this.redis.set(leaseKey, owner, { ttl, onlyIfAbsent: true })) return true;
+    return this.redis.expireIfEquals(leaseKey, owner, ttl);
+  }
+
+  async releaseLease(key: string, owner: string) {
+    await this.redis.deleteIfEquals(`${this.prefix}lease:${key}`, owner);
+  }
+
+  leaseOwner(key: string) {
+    return this.redis.get(`${this.prefix}lease:${key}`);
+  }
+}
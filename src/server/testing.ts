@@ -0,0 +1,50 @@
+// Helpers for tests that run the game server in-process and talk to it
+// through GameClient. There is no database: the records a node writes and
+// reads on its own are stubbed, and any other query fails at once instead of
+// waiting for a connection that never comes.
+import { mock } from "node:test";
+import mongoose from "mongoose";
+import Game from "../models/Game";
+import Tournament from "../models/Tournament";
+import { GameClient, GameClientEvents, GameClientOptions } from "../client";
+
+mongoose.set("bufferCommands", false);
+
+// Returns the Game.updateOne mock, whose calls show what was saved
+export function stubDatabase() {
+  mock.method(Game, "create", async () => ({}));
+  // Nothing to restore after a restart
+  mock.method(Game, "find", () => ({ select: () => ({ lean: async () => [] }) }));
+  mock.method(Tournament, "find", () => ({ lean: async () => [] }));
+  return mock.method(Game, "updateOne", async (_filter: object, _update: object) => ({}));
+}
+
+export function connectClient(port: number, options: Partial<GameClientOptions> = {}): GameClient {
+  return new GameClient({
+    url: `http://localhost:${port}`,
+    ...options,
+    // Reconnects in tests shouldn't wait out the production backoff
+    socket: { transports: ["websocket"], reconnectionDelay: 50, reconnectionDelayMax: 100, ...options.socket }
+  });
+}
+
+// Resolves with the first payload of the next `event` that passes `filter`
+export function nextEvent<E extends keyof GameClientEvents>(
+  client: GameClient,
+  event: E,
+  filter: (payload: Parameters<GameClientEvents[E]>[0]) => boolean = () => true,
+  timeout = 5000
+): Promise<Parameters<GameClientEvents[E]>[0]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      off();
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeout);
+    const off = client.on(event, ((payload: Parameters<GameClientEvents[E]>[0]) => {
+      if (!filter(payload)) return;
+      clearTimeout(timer);
+      off();
+      resolve(payload);
+    }) as GameClientEvents[E]);
+  });
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import Tournament from "../models/Tournament";
+import User from "../models/User";
+import { BracketMatch, TournamentHooks, TournamentManager, buildBracket, seedOrder } from "./tournament";
+
+function firstRound(matches: BracketMatch[]): [string | null, string | null][] {
+  return matches.filter(match => match.round === 0).map(match => [match.player1, match.player2]);
+}
+
+describe("seedOrder", () => {
+  it("keeps the top seeds apart until the last rounds", () => {
+    assert.deepEqual(seedOrder(2), [1, 2]);
+    assert.deepEqual(seedOrder(4), [1, 4, 2, 3]);
+    assert.deepEqual(seedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe("buildBracket", () => {
+  it("fills a power-of-two field without byes", () => {
+    const matches = buildBracket(["a", "b", "c", "d"]);
+
+    assert.deepEqual(firstRound(matches), [["a", "d"], ["b", "c"]]);
+    assert.deepEqual(matches.map(match => match.id), ["r0m0", "r0m1", "r1m0"]);
+  });
+
+  it("gives the top seeds the byes when the field doesn't fill the bracket", () => {
+    assert.deepEqual(firstRound(buildBracket(["a", "b", "c"])), [["a", null], ["b", "c"]]);
+    assert.deepEqual(firstRound(buildBracket(["a", "b", "c", "d", "e"])), [
+      ["a", null], ["d", "e"], ["b", null], ["c", null]
+    ]);
+  });
+
+  it("never pairs two byes", () => {
+    for (let entrants = 2; entrants <= 64; entrants++) {
+      const userIds = Array.from({ length: entrants }, (_, index) => `p${index + 1}`);
+      const matches = buildBracket(userIds);
+
+      assert.equal(matches.length, Math.pow(2, Math.ceil(Math.log2(entrants))) - 1);
+      for (const [player1, player2] of firstRound(matches)) {
+        assert.ok(player1 || player2, `${entrants} entrants left a first-round match empty`);
+      }
+    }
+  });
+});
+
+describe("TournamentManager.start", () => {
+  let manager: TournamentManager;
+
+  afterEach(() => {
+    manager.dispose();
+    mock.restoreAll();
+  });
+
+  it("sends byes through to the second round and opens the other matches", async () => {
+    const tournamentId = new mongoose.Types.ObjectId();
+    const participants = [1500, 1400, 1300, 1200, 1100].map(rating => ({
+      userId: new mongoose.Types.ObjectId(),
+      username: `rated ${rating}`,
+      rating
+    }));
+    mock.method(Tournament, "findById", () => ({
+      lean: async () => ({ _id: tournamentId, name: "cup", status: "registration", maxPlayers: 8, bestOf: 3, participants })
+    }));
+    mock.method(Tournament, "updateOne", async () => ({}));
+    mock.method(User, "find", () => ({
+      lean: async () => participants.map(p => ({ _id: p.userId, statistics: { rating: p.rating } }))
+    }));
+
+    const readyChecks: string[] = [];
+    const hooks: TournamentHooks = {
+      startGame: async () => undefined,
+      notify: (_id, event, payload) => {
+        if (event === "tournament_match_ready") readyChecks.push((payload as { matchId: string }).matchId);
+      },
+      hasLiveGame: async () => false
+    };
+    manager = new TournamentManager(hooks);
+
+    const tournament = await manager.start(tournamentId.toString());
+    const [first, second, third, fourth, fifth] = participants.map(p => p.userId.toString());
+    const match = (id: string) => tournament.matches.find(m => m.id === id)!;
+
+    // Seeds 1, 2 and 3 have byes; 4 and 5 play
+    assert.equal(match("r0m0").winner, first);
+    assert.equal(match("r0m0").forfeit, false);
+    assert.equal(match("r0m1").status, "ready_check");
+    assert.deepEqual([match("r0m1").player1, match("r0m1").player2], [fourth, fifth]);
+
+    // The two byes in the bottom half meet at once; the top half waits for 4 v 5
+    assert.deepEqual([match("r1m0").player1, match("r1m0").player2], [first, null]);
+    assert.deepEqual([match("r1m1").player1, match("r1m1").player2], [second, third]);
+    assert.equal(match("r1m1").status, "ready_check");
+    assert.deepEqual(readyChecks.sort(), ["r0m1", "r1m1"]);
+  });
+});
@@ -0,0 +1,523 @@
+import mongoose from "mongoose";
+import Tournament from "../models/Tournament";
+import User from "../models/User";
+import { DEFAULT_RATING } from "./rating";
+import { RoomSettings, resolveSettings } from "./settings";
+import { GameError } from "./protocol";
+import type { TournamentEvents } from "./protocol";
+
+export type TournamentStatus = "registration" | "running" | "finished" | "cancelled";
+export type MatchStatus = "waiting" | "ready_check" | "playing" | "finished";
+
+export interface TournamentParticipant {
+  userId: string;
+  username: string;
+  rating: number;
+  seed?: number;
+}
+
+export interface BracketMatch {
+  id: string;
+  round: number;
+  index: number;
+  player1: string | null;
+  player2: string | null;
+  wins: { player1: number; player2: number };
+  games: string[];
+  status: MatchStatus;
+  readyDeadline?: Date;
+  winner: string | null;
+  forfeit: boolean;
+}
+
+export interface TournamentData {
+  id: string;
+  name: string;
+  status: TournamentStatus;
+  maxPlayers: number;
+  bestOf: number;
+  settings: RoomSettings;
+  participants: TournamentParticipant[];
+  matches: BracketMatch[];
+  winner: string | null;
+  startedAt?: Date;
+  endedAt?: Date;
+}
+
+export interface TournamentSeat {
+  userId: string;
+  username: string;
+  socketId: string;
+}
+
+export interface CreateTournamentOptions {
+  name: string;
+  maxPlayers: number;
+  bestOf?: number;
+  settings?: Partial<RoomSettings>;
+}
+
+/**
+ * Lets the manager start games and push updates without knowing about
+ * rooms or sockets.
+ */
+export interface TournamentHooks {
+  startGame(tournamentId: string, match: BracketMatch, seats: TournamentSeat[], settings: RoomSettings): Promise<void>;
+  notify<E extends keyof TournamentEvents>(tournamentId: string, event: E, ...args: Parameters<TournamentEvents[E]>): void;
+  hasLiveGame(tournamentId: string, matchId: string): Promise<boolean>;
+}
+
+const NO_SHOW_TIMEOUT = 3 * 60 * 1000; // 3 minutes in milliseconds
+const MIN_PLAYERS = 2;
+const MAX_PLAYERS = 64;
+const BEST_OF_OPTIONS = [1, 3, 5, 7];
+
+/**
+ * Standard bracket order, so seed 1 meets seed 2 no earlier than the final:
+ * for 8 slots this is [1, 8, 4, 5, 2, 7, 3, 6].
+ */
+export function seedOrder(size: number): number[] {
+  let seeds = [1];
+  while (seeds.length < size) {
+    const total = seeds.length * 2 + 1;
+    seeds = seeds.flatMap(seed => [seed, total - seed]);
+  }
+  return seeds;
+}
+
+function roundCount(matches: BracketMatch[]): number {
+  return Math.max(...matches.map(match => match.round)) + 1;
+}
+
+/**
+ * Builds an empty single-elimination bracket for participants ordered by
+ * seed. Slots past the last participant are byes.
+ */
+export function buildBracket(seededUserIds: string[]): BracketMatch[] {
+  let size = 1;
+  while (size < seededUserIds.length) size *= 2;
+
+  const order = seedOrder(size);
+  const matches: BracketMatch[] = [];
+  const rounds = Math.log2(size);
+
+  for (let round = 0; round < rounds; round++) {
+    const matchesInRound = size / Math.pow(2, round + 1);
+    for (let index = 0; index < matchesInRound; index++) {
+      const seat = (slot: number) => round === 0 ? seededUserIds[order[index * 2 + slot] - 1] ?? null : null;
+      matches.push({
+        id: `r${round}m${index}`,
+        round,
+        index,
+        player1: seat(0),
+        player2: seat(1),
+        wins: { player1: 0, player2: 0 },
+        games: [],
+        status: "waiting",
+        winner: null,
+        forfeit: false
+      });
+    }
+  }
+
+  return matches;
+}
+
+function toTournamentData(doc: any): TournamentData {
+  const id = (value: any) => value ? value.toString() : null;
+
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    status: doc.status,
+    maxPlayers: doc.maxPlayers,
+    bestOf: doc.bestOf,
+    settings: resolveSettings(doc.settings ?? {}),
+    participants: (doc.participants ?? []).map((p: any) => ({
+      userId: p.userId.toString(),
+      username: p.username,
+      rating: p.rating,
+      seed: p.seed
+    })),
+    matches: (doc.matches ?? []).map((m: any) => ({
+      id: m.id,
+      round: m.round,
+      index: m.index,
+      player1: id(m.player1),
+      player2: id(m.player2),
+      wins: { player1: m.wins?.player1 ?? 0, player2: m.wins?.player2 ?? 0 },
+      games: m.games ?? [],
+      status: m.status,
+      readyDeadline: m.readyDeadline,
+      winner: id(m.winner),
+      forfeit: m.forfeit ?? false
+    })),
+    winner: id(doc.winner),
+    startedAt: doc.startedAt,
+    endedAt: doc.endedAt
+  };
+}
+
+export class TournamentManager {
+  hooks: TournamentHooks;
+  // matchKey -> userId -> socketId of participants who said they are ready
+  readiness: Map<string, Map<string, string>>;
+  noShowTimers: Map<string, NodeJS.Timeout>;
+  locks: Map<string, Promise<unknown>>;
+
+  constructor(hooks: TournamentHooks) {
+    this.hooks = hooks;
+    this.readiness = new Map();
+    this.noShowTimers = new Map();
+    this.locks = new Map();
+  }
+
+  // Stops the no-show timers when the server shuts down
+  dispose() {
+    this.noShowTimers.forEach(timer => clearTimeout(timer));
+    this.noShowTimers.clear();
+    this.readiness.clear();
+  }
+
+  // Runs bracket changes for one tournament one at a time
+  private withLock<T>(tournamentId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(tournamentId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(tournamentId, next);
+    return next;
+  }
+
+  private async load(tournamentId: string): Promise<TournamentData> {
+    if (!mongoose.Types.ObjectId.isValid(tournamentId)) throw new GameError("invalid_payload", "شناسه مسابقه نامعتبر است");
+    const doc = await Tournament.findById(tournamentId).lean();
+    if (!doc) throw new GameError("not_found", "مسابقه یافت نشد");
+    return toTournamentData(doc);
+  }
+
+  private async persist(tournament: TournamentData) {
+    await Tournament.updateOne({ _id: tournament.id }, {
+      $set: {
+        status: tournament.status,
+        participants: tournament.participants,
+        matches: tournament.matches,
+        winner: tournament.winner,
+        startedAt: tournament.startedAt,
+        endedAt: tournament.endedAt
+      }
+    });
+    this.hooks.notify(tournament.id, "tournament_update", { tournament });
+  }
+
+  private matchKey(tournamentId: string, matchId: string): string {
+    return `${tournamentId}:${matchId}`;
+  }
+
+  private clearReadiness(tournamentId: string, matchId: string) {
+    const key = this.matchKey(tournamentId, matchId);
+    const timer = this.noShowTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.noShowTimers.delete(key);
+    this.readiness.delete(key);
+  }
+
+  private username(tournament: TournamentData, userId: string | null): string {
+    return tournament.participants.find(p => p.userId === userId)?.username ?? "";
+  }
+
+  private seedOf(tournament: TournamentData, userId: string | null): number {
+    return tournament.participants.find(p => p.userId === userId)?.seed ?? Infinity;
+  }
+
+  private openReadyCheck(tournament: TournamentData, match: BracketMatch) {
+    match.status = "ready_check";
+    match.readyDeadline = new Date(Date.now() + NO_SHOW_TIMEOUT);
+
+    const key = this.matchKey(tournament.id, match.id);
+    this.clearReadiness(tournament.id, match.id);
+    this.readiness.set(key, new Map());
+    this.noShowTimers.set(key, setTimeout(() => {
+      this.withLock(tournament.id, () => this.handleNoShow(tournament.id, match.id))
+        .catch(error => console.error("Tournament no-show error:", error));
+    }, NO_SHOW_TIMEOUT));
+
+    this.hooks.notify(tournament.id, "tournament_match_ready", {
+      tournamentId: tournament.id,
+      matchId: match.id,
+      players: [match.player1, match.player2].map(userId => ({ userId, username: this.username(tournament, userId) })),
+      game: match.games.length + 1,
+      readyDeadline: match.readyDeadline
+    });
+  }
+
+  // Marks the match won and moves the winner into the next round's slot
+  private advance(tournament: TournamentData, match: BracketMatch, winner: string, forfeit: boolean) {
+    match.status = "finished";
+    match.winner = winner;
+    match.forfeit = forfeit;
+    match.readyDeadline = undefined;
+    this.clearReadiness(tournament.id, match.id);
+
+    if (match.round === roundCount(tournament.matches) - 1) {
+      tournament.status = "finished";
+      tournament.winner = winner;
+      tournament.endedAt = new Date();
+      this.hooks.notify(tournament.id, "tournament_finished", {
+        tournamentId: tournament.id,
+        winner: { userId: winner, username: this.username(tournament, winner) }
+      });
+      return;
+    }
+
+    const next = tournament.matches.find(m => m.round === match.round + 1 && m.index === Math.floor(match.index / 2));
+    if (!next) return;
+    if (match.index % 2 === 0) {
+      next.player1 = winner;
+    } else {
+      next.player2 = winner;
+    }
+
+    if (next.player1 && next.player2) this.openReadyCheck(tournament, next);
+  }
+
+  private async handleNoShow(tournamentId: string, matchId: string) {
+    const tournament = await this.load(tournamentId);
+    if (tournament.status !== "running") return;
+    const match = tournament.matches.find(m => m.id === matchId);
+    if (!match || match.status !== "ready_check" || !match.player1 || !match.player2) return;
+
+    const ready = this.readiness.get(this.matchKey(tournamentId, matchId)) ?? new Map();
+    let winner: string;
+    if (ready.has(match.player1) !== ready.has(match.player2)) {
+      winner = ready.has(match.player1) ? match.player1 : match.player2;
+    } else {
+      // Neither showed up: the better seed goes through
+      winner = this.seedOf(tournament, match.player1) <= this.seedOf(tournament, match.player2) ? match.player1 : match.player2;
+    }
+
+    this.advance(tournament, match, winner, true);
+    await this.persist(tournament);
+  }
+
+  async create(adminId: mongoose.Types.ObjectId, options: CreateTournamentOptions): Promise<TournamentData> {
+    const name = options.name?.trim();
+    if (!name) throw new GameError("invalid_payload", "نام مسابقه الزامی است");
+    if (!Number.isInteger(options.maxPlayers) || options.maxPlayers < MIN_PLAYERS || options.maxPlayers > MAX_PLAYERS) {
+      throw new GameError("invalid_payload", `ظرفیت مسابقه باید بین ${MIN_PLAYERS} و ${MAX_PLAYERS} باشد`);
+    }
+    const bestOf = options.bestOf ?? 3;
+    if (!BEST_OF_OPTIONS.includes(bestOf)) throw new GameError("invalid_payload", `تعداد بازی هر دیدار باید یکی از ${BEST_OF_OPTIONS.join("، ")} باشد`);
+
+    const doc = await Tournament.create({
+      name,
+      maxPlayers: options.maxPlayers,
+      bestOf,
+      settings: resolveSettings(options.settings),
+      createdBy: adminId
+    });
+    return toTournamentData(doc.toObject());
+  }
+
+  async list(): Promise<TournamentData[]> {
+    const docs = await Tournament.find({ status: { $in: ["registration", "running"] } }).sort({ createdAt: -1 }).lean();
+    return docs.map(toTournamentData);
+  }
+
+  get(tournamentId: string): Promise<TournamentData> {
+    return this.load(tournamentId);
+  }
+
+  register(tournamentId: string, userId: string): Promise<TournamentData> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "registration") throw new GameError("invalid_state", "ثبت‌نام این مسابقه بسته است");
+      if (tournament.participants.some(p => p.userId === userId)) throw new GameError("invalid_state", "قبلا در این مسابقه ثبت‌نام کرده‌اید");
+      if (tournament.participants.length >= tournament.maxPlayers) throw new GameError("invalid_state", "ظرفیت مسابقه تکمیل است");
+
+      const user = await User.findById(userId);
+      if (!user) throw new GameError("not_found", "کاربر یافت نشد");
+
+      tournament.participants.push({
+        userId,
+        username: user.username,
+        rating: user.statistics?.rating ?? DEFAULT_RATING
+      });
+      await this.persist(tournament);
+      return tournament;
+    });
+  }
+
+  unregister(tournamentId: string, userId: string): Promise<TournamentData> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "registration") throw new GameError("invalid_state", "مسابقه شروع شده است");
+
+      const count = tournament.participants.length;
+      tournament.participants = tournament.participants.filter(p => p.userId !== userId);
+      if (tournament.participants.length === count) throw new GameError("invalid_state", "در این مسابقه ثبت‌نام نکرده‌اید");
+
+      await this.persist(tournament);
+      return tournament;
+    });
+  }
+
+  /**
+   * Seeds participants by rating (then wins), builds the bracket, sends
+   * byes through and opens the first ready checks.
+   */
+  start(tournamentId: string): Promise<TournamentData> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "registration") throw new GameError("invalid_state", "این مسابقه قابل شروع نیست");
+      if (tournament.participants.length < MIN_PLAYERS) throw new GameError("invalid_state", "تعداد شرکت‌کنندگان کافی نیست");
+
+      const users = await User.find({ _id: { $in: tournament.participants.map(p => p.userId) } }).lean<any[]>();
+      const statsOf = (userId: string) => users.find(u => u._id.toString() === userId)?.statistics ?? {};
+
+      tournament.participants.sort((a, b) =>
+        (statsOf(b.userId).rating ?? DEFAULT_RATING) - (statsOf(a.userId).rating ?? DEFAULT_RATING) ||
+        (statsOf(b.userId).wins ?? 0) - (statsOf(a.userId).wins ?? 0)
+      );
+      tournament.participants.forEach((p, index) => {
+        p.seed = index + 1;
+        p.rating = statsOf(p.userId).rating ?? DEFAULT_RATING;
+      });
+
+      tournament.matches = buildBracket(tournament.participants.map(p => p.userId));
+      tournament.status = "running";
+      tournament.startedAt = new Date();
+
+      for (const match of tournament.matches.filter(m => m.round === 0)) {
+        if (match.player1 && match.player2) {
+          this.openReadyCheck(tournament, match);
+        } else {
+          this.advance(tournament, match, (match.player1 ?? match.player2)!, false);
+        }
+      }
+
+      await this.persist(tournament);
+      return tournament;
+    });
+  }
+
+  cancel(tournamentId: string): Promise<TournamentData> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status === "finished") throw new GameError("invalid_state", "مسابقه به پایان رسیده است");
+
+      tournament.matches.forEach(match => this.clearReadiness(tournament.id, match.id));
+      tournament.status = "cancelled";
+      tournament.endedAt = new Date();
+      await this.persist(tournament);
+      return tournament;
+    });
+  }
+
+  /**
+   * Records that a participant is at the table. Once both players of the
+   * match are ready the next game of their series starts.
+   */
+  markReady(tournamentId: string, userId: string, socketId: string): Promise<void> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "running") throw new GameError("invalid_state", "این مسابقه در جریان نیست");
+      const match = tournament.matches.find(m =>
+        m.status === "ready_check" && (m.player1 === userId || m.player2 === userId)
+      );
+      if (!match || !match.player1 || !match.player2) throw new GameError("invalid_state", "دیداری در انتظار شما نیست");
+
+      const key = this.matchKey(tournamentId, match.id);
+      const ready = this.readiness.get(key) ?? new Map<string, string>();
+      ready.set(userId, socketId);
+      this.readiness.set(key, ready);
+
+      if (!ready.has(match.player1) || !ready.has(match.player2)) return;
+
+      this.clearReadiness(tournamentId, match.id);
+      match.status = "playing";
+      match.readyDeadline = undefined;
+      await this.persist(tournament);
+
+      // Players alternate who moves first from game to game
+      const seats = [match.player1, match.player2].map(id => ({
+        userId: id,
+        username: this.username(tournament, id),
+        socketId: ready.get(id)!
+      }));
+      if (match.games.length % 2 === 1) seats.reverse();
+
+      await this.hooks.startGame(tournamentId, match, seats, tournament.settings);
+    });
+  }
+
+  /**
+   * Called when a tournament game ends. A draw is replayed; otherwise the
+   * winner's series tally goes up and the match ends once someone has a
+   * majority of `bestOf`.
+   */
+  recordGameResult(tournamentId: string, matchId: string, roomId: string, winnerUserId: string | null): Promise<void> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "running") return;
+      const match = tournament.matches.find(m => m.id === matchId);
+      if (!match || match.status !== "playing") return;
+
+      match.games.push(roomId);
+      if (winnerUserId === match.player1) match.wins.player1++;
+      if (winnerUserId === match.player2) match.wins.player2++;
+
+      const needed = Math.ceil(tournament.bestOf / 2);
+      if (match.wins.player1 >= needed) {
+        this.advance(tournament, match, match.player1!, false);
+      } else if (match.wins.player2 >= needed) {
+        this.advance(tournament, match, match.player2!, false);
+      } else {
+        this.openReadyCheck(tournament, match);
+      }
+
+      await this.persist(tournament);
+    });
+  }
+
+  /**
+   * Awards the whole match to the opponent of a player who abandoned it.
+   */
+  forfeit(tournamentId: string, loserUserId: string): Promise<void> {
+    return this.withLock(tournamentId, async () => {
+      const tournament = await this.load(tournamentId);
+      if (tournament.status !== "running") return;
+      const match = tournament.matches.find(m =>
+        (m.status === "ready_check" || m.status === "playing") &&
+        (m.player1 === loserUserId || m.player2 === loserUserId)
+      );
+      if (!match) return;
+
+      const winner = match.player1 === loserUserId ? match.player2 : match.player1;
+      if (!winner) return;
+
+      this.advance(tournament, match, winner, true);
+      await this.persist(tournament);
+    });
+  }
+
+  /**
+   * Picks up running tournaments after a restart or when taking over from
+   * another node. Matches whose game is no longer running go back to a
+   * ready check.
+   */
+  async restore() {
+    const docs = await Tournament.find({ status: "running" }).lean();
+
+    for (const doc of docs) {
+      const tournament = toTournamentData(doc);
+      await this.withLock(tournament.id, async () => {
+        for (const match of tournament.matches) {
+          if (match.status === "playing" && await this.hooks.hasLiveGame(tournament.id, match.id)) continue;
+          if (match.status === "ready_check" || match.status === "playing") {
+            this.openReadyCheck(tournament, match);
+          }
+        }
+        await this.persist(tournament);
+      });
+    }
+  }
+}
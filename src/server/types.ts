@@ -0,0 +1,77 @@
+// Board primitives shared by the server and its helper modules.
+import type { RoomSettings } from "./settings";
+
+export type PlayerNumber = 1 | 2;
+
+export interface Coordinates {
+  row: number;
+  col: number;
+}
+
+export interface Line {
+  start: Coordinates;
+  end: Coordinates;
+  player: PlayerNumber;
+  timestamp?: Date;
+}
+
+export interface Box {
+  topLeft: Coordinates;
+  player: PlayerNumber;
+  id: string;
+}
+
+export type CardType = "yellow" | "red";
+export type CardReason = "timeout" | "invalid_moves" | "abusive_chat";
+
+export interface Card {
+  playerNumber: PlayerNumber;
+  type: CardType;
+  reason: CardReason;
+  timestamp: Date;
+}
+
+// How a game ended: "timeout" is a bank running out, "abandoned" a player
+// leaving or nobody coming back
+export type EndReason = "boxes_complete" | "resigned" | "draw_agreed" | "timeout" | "red_card" | "abandoned" | "admin";
+
+export interface DrawOfferState {
+  offeredBy: PlayerNumber | null; // pending offer waiting for the opponent
+  lastOfferedAt: { player1: number | null; player2: number | null }; // line count at each player's latest offer
+}
+
+export interface SeriesScore {
+  id: string;
+  gameNumber: number;
+  wins: { player1: number; player2: number };
+  draws: number;
+}
+
+export interface PauseState {
+  requestedBy: PlayerNumber | null; // pending request waiting for the opponent
+  requestExpiresAt: number | null; // epoch milliseconds
+  resumeAt: number | null; // epoch milliseconds the game resumes by itself, while paused
+  remaining: { player1: number; player2: number }; // pauses each player may still ask for
+}
+
+export interface GameState {
+  lines: Line[];
+  boxes: Box[];
+  currentPlayer: PlayerNumber;
+  scores: { player1: number; player2: number };
+  warnings: { player1: { yellow: number; red: number }; player2: { yellow: number; red: number } };
+  gameStatus: "waiting" | "active" | "ended";
+  winner: PlayerNumber | null;
+  endReason: EndReason | null;
+  isPaused: boolean;
+  pause: PauseState;
+  drawOffer: DrawOfferState;
+  timeLeft: number; // seconds left on the turn while the clock is stopped
+  turnDeadline: number | null; // epoch milliseconds the turn runs out, while the clock runs
+  clocks: { player1: number; player2: number } | null; // seconds left in each bank, for bank time control
+  soundEnabled: boolean;
+  playerNames: { player1: string; player2: string };
+  settings: RoomSettings;
+  spectatorCount: number;
+  series: SeriesScore;
+}